@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore, isTerminalJobStatus } from '@/lib/job-store';
+
+const POLL_INTERVAL_MS = 500;
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream of a job's stage events. Each event carries its
+ * index as the SSE id, so a reconnecting EventSource resumes after the last
+ * event it saw via Last-Event-ID. A final `result` event carries the whole
+ * job once it is done, failed or cancelled.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const jobStore = getJobStore();
+
+  if (!(await jobStore.get(id))) {
+    return NextResponse.json(
+      { error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const lastEventId = parseInt(request.headers.get('last-event-id') || '', 10);
+  let nextIndex = Number.isNaN(lastEventId) ? 0 : lastEventId + 1;
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      let lastSentAt = Date.now();
+
+      try {
+        while (!request.signal.aborted) {
+          const job = await jobStore.get(id);
+          if (!job) {
+            break;
+          }
+
+          for (; nextIndex < job.events.length; nextIndex++) {
+            const event = job.events[nextIndex];
+            send(
+              `id: ${nextIndex}\nevent: ${event.stage}\ndata: ${JSON.stringify(event)}\n\n`
+            );
+            lastSentAt = Date.now();
+          }
+
+          if (isTerminalJobStatus(job.status)) {
+            send(`event: result\ndata: ${JSON.stringify(job)}\n\n`);
+            break;
+          }
+
+          if (Date.now() - lastSentAt > HEARTBEAT_INTERVAL_MS) {
+            send(': heartbeat\n\n');
+            lastSentAt = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error(`Event stream for job ${id} failed:`, error);
+      } finally {
+        if (!request.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
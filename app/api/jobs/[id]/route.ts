@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStore } from '@/lib/job-store';
+import { cancelPersonalizationJob } from '@/lib/personalization-job';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await getJobStore().get(id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(job, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const job = await cancelPersonalizationJob(id);
+
+  if (!job) {
+    return NextResponse.json(
+      { error: `Job ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(job);
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toPersonalizationError } from '@/lib/errors';
+import { renderJobVariation } from '@/lib/personalization-job';
+
+/**
+ * Renders one of a finished job's variations in the job's requested
+ * format. Only the first is rendered while the job runs; the others have
+ * just a preview until picked.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  const { id, index } = await params;
+  const variationIndex = Number(index);
+
+  try {
+    const variation = Number.isInteger(variationIndex)
+      ? await renderJobVariation(id, variationIndex)
+      : undefined;
+
+    if (!variation) {
+      return NextResponse.json(
+        { error: `Job ${id} has no variation ${index}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(variation);
+  } catch (error) {
+    console.error(`Rendering variation ${index} of job ${id} failed:`, error);
+
+    const failure = toPersonalizationError(error);
+    return NextResponse.json(
+      { error: failure.message, code: failure.code },
+      { status: failure.status }
+    );
+  }
+}
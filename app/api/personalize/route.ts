@@ -1,108 +1,350 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { createAIService } from '@/lib/ai-service';
-import { createImageCompositor } from '@/lib/image-compositor';
+import {
+  CancelledError,
+  InvalidInputError,
+  PersonalizationError,
+  toPersonalizationError,
+} from '@/lib/errors';
+import {
+  createImageCompositor,
+  type TemplateConfig,
+} from '@/lib/image-compositor';
+import { normalizeUpload, type NormalizedImage } from '@/lib/image-upload';
+import { getJobStore } from '@/lib/job-store';
+import {
+  cancelPersonalizationJob,
+  runPersonalizationJob,
+} from '@/lib/personalization-job';
+import {
+  MAX_SEED,
+  getAvailableModelProviders,
+  getModelProvider,
+} from '@/lib/model-providers';
+import {
+  getOutputFormats,
+  getPrintFormats,
+  isPrintFormat,
+  parseOutputOptions,
+} from '@/lib/output-format';
+import { MAX_BLEED_MM } from '@/lib/print-export';
+import { sanitizePromptVariables } from '@/lib/prompt-builder';
+import { getTemplateTextFields } from '@/lib/template-manifest';
+import { sanitizeTextFields } from '@/lib/text-renderer';
+import { getStylePreset, getStylePresets } from '@/lib/style-presets';
+import type { OutputOptions, PrintFormat, PrintOptions } from '@/types';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
-const ALLOWED_TYPES = ['image/jpeg', 'image/png', 'image/jpg', 'image/webp'];
+// The formats normalizeUpload recognizes by their bytes; HEIC, AVIF and
+// GIF uploads are converted to JPEG or PNG, and only the first frame of an
+// animated GIF is used.
+const ALLOWED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/jpg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'image/avif',
+  'image/gif',
+];
+
+const MAX_VARIATIONS = 4;
+
+// Multi-character templates take one photo per slot as `image[slotName]`.
+const SLOT_FIELD_PATTERN = /^image\[([a-z0-9_-]+)\]$/i;
+
+// Template captions take their values as `text[field]`; `childName` has its
+// own field since the prompt uses it too.
+const TEXT_FIELD_PATTERN = /^text\[(\w+)\]$/;
+
+// The format is checked by normalizeUpload from the file's bytes; the
+// browser-supplied type can be empty or generic for a perfectly good photo.
+function validateImageFile(file: File, label: string) {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new InvalidInputError(
+      `File too large${label}. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB`
+    );
+  }
+}
+
+/**
+ * Collects the uploaded photos keyed by slot name. A plain `image` field is
+ * still accepted for the template's first slot.
+ */
+function getSlotUploads(
+  formData: FormData,
+  template: TemplateConfig
+): Record<string, File> {
+  const slotNames = template.faceSlots.map((slot) => slot.name);
+  const uploads: Record<string, File> = {};
+
+  formData.forEach((value, key) => {
+    const match = SLOT_FIELD_PATTERN.exec(key);
+    if (!match || typeof value === 'string') {
+      return;
+    }
+
+    if (!slotNames.includes(match[1])) {
+      throw new InvalidInputError(
+        `Unknown slot "${match[1]}". Template ${template.name} has slots: ${slotNames.join(', ')}`
+      );
+    }
+    uploads[match[1]] = value;
+  });
+
+  const legacyFile = formData.get('image');
+  if (legacyFile && typeof legacyFile !== 'string' && !uploads[slotNames[0]]) {
+    uploads[slotNames[0]] = legacyFile;
+  }
+
+  if (Object.keys(uploads).length === 0) {
+    throw new InvalidInputError('No image file provided');
+  }
+
+  template.faceSlots.forEach((slot) => {
+    if (!slot.optional && !uploads[slot.name]) {
+      throw new InvalidInputError(`No image provided for slot "${slot.name}"`);
+    }
+  });
+
+  Object.entries(uploads).forEach(([slotName, file]) => {
+    validateImageFile(
+      file,
+      slotNames.length > 1 ? ` for slot "${slotName}"` : ''
+    );
+  });
+
+  return uploads;
+}
+
+function getTextFieldValues(
+  formData: FormData,
+  template: TemplateConfig
+): Record<string, string> {
+  const fields = getTemplateTextFields(template).filter(
+    (field) => field !== 'childName'
+  );
+  const values: Record<string, string> = {};
+
+  formData.forEach((value, key) => {
+    const match = TEXT_FIELD_PATTERN.exec(key);
+    if (!match || typeof value !== 'string') {
+      return;
+    }
+
+    if (!fields.includes(match[1])) {
+      throw new InvalidInputError(
+        `Unknown text field "${match[1]}". Template ${template.name} accepts: ${fields.join(', ') || 'none'}`
+      );
+    }
+    values[match[1]] = value;
+  });
+
+  return sanitizeTextFields(values);
+}
+
+function getPrintOptions(
+  formData: FormData,
+  template: TemplateConfig,
+  format: PrintFormat
+): PrintOptions {
+  const bleedValue = formData.get('bleed') as string | null;
+  const cropMarksValue = formData.get('cropMarks') as string | null;
+
+  if (!template.print) {
+    throw new InvalidInputError(
+      `Template ${template.name} has no print size. Use one of: ${getOutputFormats().join(', ')}`
+    );
+  }
+
+  if (formData.has('quality') || formData.has('width')) {
+    throw new InvalidInputError(
+      'quality and width cannot be used with print formats; print files are sized by the template'
+    );
+  }
+
+  const bleed = bleedValue ? Number(bleedValue) : undefined;
+  if (
+    bleed !== undefined &&
+    (!Number.isFinite(bleed) || bleed < 0 || bleed > MAX_BLEED_MM)
+  ) {
+    throw new InvalidInputError(
+      `Invalid bleed. Must be between 0 and ${MAX_BLEED_MM} mm`
+    );
+  }
+
+  if (cropMarksValue && !['true', 'false'].includes(cropMarksValue)) {
+    throw new InvalidInputError('Invalid cropMarks. Must be true or false');
+  }
+
+  return { format, bleed, cropMarks: cropMarksValue === 'true' };
+}
+
+function getOutputOptions(
+  formData: FormData,
+  template: TemplateConfig
+): { output?: OutputOptions; print?: PrintOptions } {
+  const formatValue = formData.get('format') as string | null;
+  const qualityValue = formData.get('quality') as string | null;
+  const widthValue = formData.get('width') as string | null;
+
+  const format = formatValue || 'png';
+  if (isPrintFormat(format)) {
+    return { print: getPrintOptions(formData, template, format) };
+  }
+
+  return {
+    output: parseOutputOptions({
+      format,
+      quality: qualityValue,
+      width: widthValue,
+    }),
+  };
+}
 
 export async function POST(request: NextRequest) {
   try {
     console.log('Received personalization request');
 
     const formData = await request.formData();
-    const file = formData.get('image') as File | null;
     const templateName = formData.get('template') as string | null;
+    const modelName = formData.get('model') as string | null;
+    const styleName = formData.get('style') as string | null;
+    const seedValue = formData.get('seed') as string | null;
+    const variationsValue = formData.get('variations') as string | null;
+    const promptVariables = sanitizePromptVariables({
+      userPrompt: formData.get('prompt') as string | null,
+      childName: formData.get('childName') as string | null,
+      theme: formData.get('theme') as string | null,
+    });
 
-    if (!file) {
-      return NextResponse.json(
-        { error: 'No image file provided' },
-        { status: 400 }
+    const template = templateName || 'template1';
+    const compositor = createImageCompositor();
+    const templateConfig = await compositor.getTemplateConfig(template);
+    if (!templateConfig) {
+      throw new InvalidInputError(
+        `Invalid template. Available templates: ${(await compositor.getAvailableTemplates()).join(', ')}`
       );
     }
 
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return NextResponse.json(
-        {
-          error: `Invalid file type. Allowed types: ${ALLOWED_TYPES.join(', ')}`,
-        },
-        { status: 400 }
+    const uploads = getSlotUploads(formData, templateConfig);
+    const textFields = getTextFieldValues(formData, templateConfig);
+    const { output, print } = getOutputOptions(formData, templateConfig);
+
+    if (modelName && !getModelProvider(modelName)) {
+      throw new InvalidInputError(
+        `Invalid model. Allowed models: ${getAvailableModelProviders().join(', ')}`
       );
     }
 
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        {
-          error: `File too large. Maximum size: ${MAX_FILE_SIZE / 1024 / 1024}MB`,
-        },
-        { status: 400 }
+    if (styleName && !getStylePreset(styleName)) {
+      throw new InvalidInputError(
+        `Invalid style. Allowed styles: ${getStylePresets().map((preset) => preset.id).join(', ')}`
       );
     }
 
-    console.log(`Processing file: ${file.name} (${file.size} bytes, ${file.type})`);
-
-    const arrayBuffer = await file.arrayBuffer();
-    const imageBuffer = Buffer.from(arrayBuffer);
-
-    const aiService = createAIService();
+    const seed = seedValue ? Number(seedValue) : undefined;
+    if (
+      seed !== undefined &&
+      (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED)
+    ) {
+      throw new InvalidInputError(
+        `Invalid seed. Must be an integer between 0 and ${MAX_SEED}`
+      );
+    }
 
-    console.log('Step 1: Generating personalized illustration with AI...');
-    const aiResult = await aiService.personalizeImage({
-      imageBuffer,
-      prompt: 'cute cartoon style, colorful, friendly, childrens book illustration, happy child',
-    });
+    const variations = variationsValue ? Number(variationsValue) : 1;
+    if (
+      !Number.isInteger(variations) ||
+      variations < 1 ||
+      variations > MAX_VARIATIONS
+    ) {
+      throw new InvalidInputError(
+        `Invalid variations. Must be an integer between 1 and ${MAX_VARIATIONS}`
+      );
+    }
 
-    if (aiResult.error || !aiResult.imageUrl) {
-      console.error('AI generation failed:', aiResult.error);
-      return NextResponse.json(
-        {
-          error: aiResult.error || 'Failed to generate personalized image',
-        },
-        { status: 500 }
+    // Only re-encoded pixels are sent on to the model.
+    const images: Record<string, NormalizedImage> = {};
+    for (const [slotName, file] of Object.entries(uploads)) {
+      console.log(
+        `Processing file for slot ${slotName}: ${file.name} (${file.size} bytes, ${file.type})`
+      );
+      images[slotName] = await normalizeUpload(
+        Buffer.from(await file.arrayBuffer()),
+        file.type,
+        templateConfig.faceSlots.length > 1 ? ` for slot "${slotName}"` : ''
       );
     }
 
-    console.log('Step 2: Compositing onto template...');
-    const compositor = createImageCompositor();
-    const compositeResult = await compositor.compositeOnTemplate({
-      aiGeneratedImageUrl: aiResult.imageUrl,
-      templateName: templateName || 'template1',
-    });
+    // The client gave up while uploading; don't start a paid prediction.
+    if (request.signal.aborted) {
+      throw new CancelledError();
+    }
 
-    if (compositeResult.error || !compositeResult.base64Image) {
-      console.error('Composition failed:', compositeResult.error);
-      return NextResponse.json(
-        {
-          error: compositeResult.error || 'Failed to composite image',
-        },
-        { status: 500 }
+    const aiService = createAIService();
+    const jobStore = getJobStore();
+    const job = await jobStore.create();
+
+    console.log(`Queued personalization job ${job.id}`);
+
+    // A client that gives up before the 202 reaches it never learns the
+    // job's id, so cancel the job here or it would run and be billed.
+    const cancelJob = () =>
+      cancelPersonalizationJob(job.id).catch((error) =>
+        console.error(`Failed to cancel job ${job.id}:`, error)
       );
+    if (request.signal.aborted) {
+      await cancelJob();
+      throw new CancelledError();
     }
+    request.signal.addEventListener('abort', cancelJob, { once: true });
 
-    console.log('Personalization completed successfully');
+    after(() =>
+      runPersonalizationJob(job.id, aiService, {
+        images,
+        templateName: template,
+        model: modelName || undefined,
+        style: styleName || undefined,
+        seed,
+        variations,
+        promptVariables,
+        textFields,
+        output,
+        print,
+      })
+    );
 
-    return NextResponse.json({
-      success: true,
-      image: compositeResult.base64Image,
-      message: 'Image personalized successfully',
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.id}`,
+        message: 'Personalization job queued',
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Personalization API Error:', error);
 
-    const errorMessage =
-      error instanceof Error ? error.message : 'Internal server error';
+    const failure = toPersonalizationError(error);
 
     return NextResponse.json(
       {
-        error: errorMessage,
+        error: failure.message,
+        code: failure.code,
         details:
-          process.env.NODE_ENV === 'development'
+          process.env.NODE_ENV === 'development' &&
+          !(error instanceof PersonalizationError)
             ? error instanceof Error
               ? error.stack
               : String(error)
             : undefined,
       },
-      { status: 500 }
+      { status: failure.status }
     );
   }
 }
@@ -111,11 +353,17 @@ export async function GET() {
   return NextResponse.json({
     message: 'Pickabook Personalization API',
     endpoints: {
-      POST: '/api/personalize - Upload an image for personalization',
+      POST: '/api/personalize - Upload an image for personalization (returns a jobId)',
+      'GET /api/jobs/[id]': 'Poll the status and result of a personalization job',
+      'GET /api/templates': 'List the available templates',
     },
     requirements: {
-      field: 'image',
+      field: 'image (or image[slotName] for multi-character templates)',
       allowedTypes: ALLOWED_TYPES,
+      models: getAvailableModelProviders(),
+      styles: getStylePresets().map((preset) => preset.id),
+      formats: getOutputFormats(),
+      printFormats: getPrintFormats(),
       maxSize: `${MAX_FILE_SIZE / 1024 / 1024}MB`,
     },
   });
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { toPersonalizationError } from '@/lib/errors';
+import { createImageCompositor } from '@/lib/image-compositor';
+import { getTemplateTextFields } from '@/lib/template-manifest';
+import type { TemplateSummary } from '@/types';
+
+export async function GET() {
+  try {
+    const templates = await createImageCompositor().getTemplates();
+
+    const summaries: TemplateSummary[] = templates.map((template) => ({
+      name: template.name,
+      displayName: template.displayName,
+      description: template.description,
+      tags: template.tags,
+      thumbnailUrl: template.thumbnail,
+      slotCount: template.faceSlots.length,
+      slots: template.faceSlots.map((slot) => ({
+        name: slot.name,
+        optional: slot.optional,
+      })),
+      textFields: getTemplateTextFields(template),
+      defaultStyle: template.defaultStyle,
+      // Fall back to the template's default style so the picker always has
+      // something to highlight.
+      recommendedStyles:
+        template.recommendedStyles.length > 0
+          ? template.recommendedStyles
+          : template.defaultStyle
+            ? [template.defaultStyle]
+            : [],
+    }));
+
+    return NextResponse.json({ templates: summaries });
+  } catch (error) {
+    console.error('Templates API Error:', error);
+
+    const failure = toPersonalizationError(error);
+
+    return NextResponse.json(
+      { error: failure.message, code: failure.code },
+      { status: failure.status }
+    );
+  }
+}
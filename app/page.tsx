@@ -1,10 +1,39 @@
 'use client';
 
-import { useState, useRef, ChangeEvent } from 'react';
-import { Upload, Image as ImageIcon, Download, Sparkles, AlertCircle, CheckCircle } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback, ChangeEvent } from 'react';
+import { Upload, Image as ImageIcon, Download, Sparkles, AlertCircle, CheckCircle, X, Palette, LayoutTemplate, Users, Type } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel';
+import { cn } from '@/lib/utils';
+import { DEFAULT_STYLE_PRESET, getStylePresets } from '@/lib/style-presets';
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  OUTPUT_FORMATS,
+  getExtensionForContentType,
+  getOutputFormats,
+} from '@/lib/output-format';
+import type { GeneratedVariation, JobEvent, JobStage, OutputFormat, PersonalizationJob, TemplateSummary } from '@/types';
+
+const VARIATION_COUNTS = [1, 2, 3, 4];
+
+const PROGRESS_STAGES: { stage: JobStage; label: string }[] = [
+  { stage: 'queued', label: 'Queued' },
+  { stage: 'generating', label: 'Generating' },
+  { stage: 'downloading', label: 'Downloading' },
+  { stage: 'compositing', label: 'Compositing' },
+  { stage: 'encoding', label: 'Encoding' },
+];
 
 interface UploadState {
   file: File | null;
@@ -12,7 +41,117 @@ interface UploadState {
   isProcessing: boolean;
   error: string | null;
   resultImage: string | null;
+  /** The finished job, to render the other variations from. */
+  jobId: string | null;
+  variations: GeneratedVariation[];
+  renderingVariation: boolean;
   success: boolean;
+  stage: JobStage | null;
+  stageMessage: string | null;
+  progress: number;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// HEIC, AVIF and GIF are converted on the server.
+const ACCEPTED_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/jpg',
+  'image/webp',
+  'image/heic',
+  'image/heif',
+  'image/avif',
+  'image/gif',
+];
+
+// Browsers other than Safari don't know the HEIC types, so the extensions
+// are listed for the file picker and fill in the missing type.
+const EXTENSION_TYPES: Record<string, string> = {
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+const ACCEPT_ATTRIBUTE = [
+  ...ACCEPTED_IMAGE_TYPES,
+  ...Object.keys(EXTENSION_TYPES).map((extension) => `.${extension}`),
+].join(',');
+
+const TEXT_FIELD_MAX_LENGTHS: Record<string, number> = { childName: 40 };
+const DEFAULT_TEXT_FIELD_MAX_LENGTH = 60;
+
+// "friendName" -> "Friend name"
+function getTextFieldLabel(field: string): string {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+}
+
+// The result is a data URI, so its own content type decides the extension.
+function getDownloadExtension(dataUri: string): string {
+  const contentType = /^data:([^;,]+)/.exec(dataUri)?.[1] ?? '';
+  return (
+    getExtensionForContentType(contentType) ??
+    OUTPUT_FORMATS[DEFAULT_OUTPUT_FORMAT].extension
+  );
+}
+
+function withImageType(file: File): File {
+  if (file.type) {
+    return file;
+  }
+
+  const type = EXTENSION_TYPES[file.name.split('.').pop()?.toLowerCase() ?? ''];
+  return type ? new File([file], file.name, { type }) : file;
+}
+
+// Files the browser has no type for are left to the server, which goes by
+// their bytes.
+const UNKNOWN_FILE_TYPES = ['', 'application/octet-stream'];
+
+function getFileError(file: File): string | null {
+  if (
+    !UNKNOWN_FILE_TYPES.includes(file.type) &&
+    !ACCEPTED_IMAGE_TYPES.includes(file.type)
+  ) {
+    return 'Please select a JPG, PNG, WebP, HEIC, AVIF or GIF image';
+  }
+
+  if (file.size > MAX_FILE_SIZE) {
+    return 'File is too large. Maximum size is 10MB';
+  }
+
+  return null;
+}
+
+function watchJob(
+  jobId: string,
+  onEvent: (event: JobEvent) => void,
+  signal: AbortSignal
+): Promise<PersonalizationJob> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    signal.addEventListener('abort', () => {
+      source.close();
+      reject(new DOMException('Generation cancelled', 'AbortError'));
+    });
+
+    const handleStage = (event: MessageEvent) => onEvent(JSON.parse(event.data));
+    PROGRESS_STAGES.forEach(({ stage }) =>
+      source.addEventListener(stage, handleStage)
+    );
+
+    source.addEventListener('result', (event) => {
+      source.close();
+      resolve(JSON.parse((event as MessageEvent).data));
+    });
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to the progress stream'));
+      }
+    };
+  });
 }
 
 export default function Home() {
@@ -22,30 +161,104 @@ export default function Home() {
     isProcessing: false,
     error: null,
     resultImage: null,
+    jobId: null,
+    variations: [],
+    renderingVariation: false,
     success: false,
+    stage: null,
+    stageMessage: null,
+    progress: 0,
   });
 
+  const [style, setStyle] = useState(DEFAULT_STYLE_PRESET);
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [template, setTemplate] = useState<TemplateSummary | null>(null);
+  const [brokenThumbnails, setBrokenThumbnails] = useState<string[]>([]);
+  // Photos for a multi-character template's other slots; the main upload
+  // always fills the first slot.
+  const [textValues, setTextValues] = useState<Record<string, string>>({});
+  const [extraPhotos, setExtraPhotos] = useState<
+    Record<string, { file: File; previewUrl: string }>
+  >({});
+  const [variationCount, setVariationCount] = useState(1);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>(DEFAULT_OUTPUT_FORMAT);
+  const [selectedVariation, setSelectedVariation] = useState(0);
+  const selectedVariationRef = useRef(0);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const jobIdRef = useRef<string | null>(null);
 
-  const handleFileSelect = (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  // Abort the client side and tell the server to cancel the Replicate
+  // prediction. keepalive lets the request outlive a closing tab.
+  const cancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
 
-    if (!file) return;
+    if (jobIdRef.current) {
+      fetch(`/api/jobs/${jobIdRef.current}`, {
+        method: 'DELETE',
+        keepalive: true,
+      }).catch((error) => console.error('Failed to cancel job:', error));
+      jobIdRef.current = null;
+    }
+  }, []);
 
-    if (!file.type.startsWith('image/')) {
-      setState((prev) => ({
-        ...prev,
-        error: 'Please select a valid image file (JPG, PNG, or WebP)',
-      }));
-      return;
+  useEffect(() => {
+    window.addEventListener('pagehide', cancelGeneration);
+    return () => {
+      window.removeEventListener('pagehide', cancelGeneration);
+      cancelGeneration();
+    };
+  }, [cancelGeneration]);
+
+  // Switching templates resets the style to the template's default.
+  const selectTemplate = useCallback((next: TemplateSummary) => {
+    setTemplate(next);
+    if (next.defaultStyle) {
+      setStyle(next.defaultStyle);
     }
+  }, []);
 
-    const maxSize = 10 * 1024 * 1024;
-    if (file.size > maxSize) {
-      setState((prev) => ({
-        ...prev,
-        error: 'File is too large. Maximum size is 10MB',
-      }));
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch('/api/templates', { signal: controller.signal })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load templates');
+        }
+        return data.templates as TemplateSummary[];
+      })
+      .then((catalog) => {
+        setTemplates(catalog);
+        if (catalog.length > 0) {
+          selectTemplate(catalog[0]);
+        }
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load templates:', error);
+        setState((prev) => ({
+          ...prev,
+          error: 'Could not load templates. Please refresh the page.',
+        }));
+      });
+
+    return () => controller.abort();
+  }, [selectTemplate]);
+
+  const handleFileSelect = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+
+    if (!selected) return;
+
+    const file = withImageType(selected);
+
+    const fileError = getFileError(file);
+    if (fileError) {
+      setState((prev) => ({ ...prev, error: fileError }));
       return;
     }
 
@@ -57,7 +270,50 @@ export default function Home() {
       isProcessing: false,
       error: null,
       resultImage: null,
+      jobId: null,
+      variations: [],
+      renderingVariation: false,
       success: false,
+      stage: null,
+      stageMessage: null,
+      progress: 0,
+    });
+  };
+
+  const handleExtraPhotoSelect = (
+    slotName: string,
+    event: ChangeEvent<HTMLInputElement>
+  ) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+
+    if (!selected) return;
+
+    const file = withImageType(selected);
+
+    const fileError = getFileError(file);
+    if (fileError) {
+      setState((prev) => ({ ...prev, error: fileError }));
+      return;
+    }
+
+    const previewUrl = URL.createObjectURL(file);
+    setExtraPhotos((prev) => {
+      if (prev[slotName]) {
+        URL.revokeObjectURL(prev[slotName].previewUrl);
+      }
+      return { ...prev, [slotName]: { file, previewUrl } };
+    });
+    setState((prev) => ({ ...prev, error: null }));
+  };
+
+  const removeExtraPhoto = (slotName: string) => {
+    setExtraPhotos((prev) => {
+      const { [slotName]: removed, ...rest } = prev;
+      if (removed) {
+        URL.revokeObjectURL(removed.previewUrl);
+      }
+      return rest;
     });
   };
 
@@ -65,10 +321,28 @@ export default function Home() {
     fileInputRef.current?.click();
   };
 
+  const handleCancel = () => {
+    cancelGeneration();
+
+    setState((prev) => ({
+      ...prev,
+      isProcessing: false,
+      stage: null,
+      stageMessage: null,
+      progress: 0,
+    }));
+  };
+
   const handleReset = () => {
+    cancelGeneration();
+
     if (state.previewUrl) {
       URL.revokeObjectURL(state.previewUrl);
     }
+    Object.values(extraPhotos).forEach(({ previewUrl }) =>
+      URL.revokeObjectURL(previewUrl)
+    );
+    setExtraPhotos({});
 
     setState({
       file: null,
@@ -76,7 +350,13 @@ export default function Home() {
       isProcessing: false,
       error: null,
       resultImage: null,
+      jobId: null,
+      variations: [],
+      renderingVariation: false,
       success: false,
+      stage: null,
+      stageMessage: null,
+      progress: 0,
     });
 
     if (fileInputRef.current) {
@@ -84,29 +364,71 @@ export default function Home() {
     }
   };
 
+  const extraSlots = template?.slots.slice(1) ?? [];
+  const missingSlots = extraSlots
+    .filter((slot) => !slot.optional && !extraPhotos[slot.name])
+    .map((slot) => slot.name);
+
   const handleGenerate = async () => {
     if (!state.file) {
       setState((prev) => ({ ...prev, error: 'Please select an image first' }));
       return;
     }
 
+    if (!template) {
+      setState((prev) => ({ ...prev, error: 'Please choose a template first' }));
+      return;
+    }
+
+    if (missingSlots.length > 0) {
+      setState((prev) => ({
+        ...prev,
+        error: `Please add a photo for: ${missingSlots.join(', ')}`,
+      }));
+      return;
+    }
+
     setState((prev) => ({
       ...prev,
       isProcessing: true,
       error: null,
       success: false,
+      stage: null,
+      stageMessage: null,
+      progress: 0,
     }));
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       const formData = new FormData();
-      formData.append('image', state.file);
-      formData.append('template', 'template1');
+      const [primarySlot, ...otherSlots] = template.slots;
+      formData.append(`image[${primarySlot.name}]`, state.file);
+      otherSlots.forEach((slot) => {
+        const photo = extraPhotos[slot.name];
+        if (photo) {
+          formData.append(`image[${slot.name}]`, photo.file);
+        }
+      });
+      formData.append('template', template.name);
+      template.textFields.forEach((field) => {
+        const value = textValues[field]?.trim();
+        if (!value) return;
+
+        // The prompt uses the child's name too, so it has its own field.
+        formData.append(field === 'childName' ? 'childName' : `text[${field}]`, value);
+      });
+      formData.append('style', style);
+      formData.append('variations', String(variationCount));
+      formData.append('format', outputFormat);
 
       console.log('Sending request to API...');
 
       const response = await fetch('/api/personalize', {
         method: 'POST',
         body: formData,
+        signal: abortController.signal,
       });
 
       const data = await response.json();
@@ -115,15 +437,55 @@ export default function Home() {
         throw new Error(data.error || 'Failed to personalize image');
       }
 
+      console.log(`Waiting for job ${data.jobId}...`);
+      jobIdRef.current = data.jobId;
+
+      const job = await watchJob(
+        data.jobId,
+        (event) => {
+          setState((prev) => ({
+            ...prev,
+            stage: event.stage,
+            stageMessage: event.message,
+            progress: event.progress,
+          }));
+        },
+        abortController.signal
+      );
+
+      jobIdRef.current = null;
+      abortControllerRef.current = null;
+
+      if (job.status === 'cancelled') {
+        handleCancel();
+        return;
+      }
+
+      if (job.status === 'failed' || !job.result) {
+        throw new Error(job.error || 'Failed to personalize image');
+      }
+
       console.log('Received personalized image');
+      setSelectedVariation(0);
+      selectedVariationRef.current = 0;
 
       setState((prev) => ({
         ...prev,
         isProcessing: false,
-        resultImage: data.image,
+        resultImage: job.result?.image || null,
+        jobId: job.id,
+        variations: job.result?.variations || [],
         success: true,
       }));
     } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log('Generation cancelled');
+        return;
+      }
+
+      jobIdRef.current = null;
+      abortControllerRef.current = null;
+
       console.error('Error:', error);
       setState((prev) => ({
         ...prev,
@@ -133,12 +495,63 @@ export default function Home() {
     }
   };
 
+  // Only the first variation comes back in the chosen format; the others
+  // are rendered the first time they are picked.
+  const handleSelectVariation = async (index: number) => {
+    const variation = state.variations[index];
+    setSelectedVariation(index);
+    selectedVariationRef.current = index;
+
+    if (variation.image || !state.jobId) {
+      setState((prev) => ({
+        ...prev,
+        resultImage: variation.image || null,
+        renderingVariation: false,
+      }));
+      return;
+    }
+
+    setState((prev) => ({ ...prev, resultImage: null, renderingVariation: true }));
+
+    try {
+      const response = await fetch(`/api/jobs/${state.jobId}/variations/${index}`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to render variation');
+      }
+
+      const rendered = data as GeneratedVariation;
+      setState((prev) => {
+        const variations = [...prev.variations];
+        variations[index] = rendered;
+        const isSelected = selectedVariationRef.current === index;
+        return {
+          ...prev,
+          variations,
+          resultImage: isSelected ? rendered.image || null : prev.resultImage,
+          renderingVariation: isSelected ? false : prev.renderingVariation,
+        };
+      });
+    } catch (error) {
+      if (selectedVariationRef.current !== index) return;
+
+      setState((prev) => ({
+        ...prev,
+        renderingVariation: false,
+        error: error instanceof Error ? error.message : 'Failed to render variation',
+      }));
+    }
+  };
+
   const handleDownload = () => {
     if (!state.resultImage) return;
 
     const link = document.createElement('a');
     link.href = state.resultImage;
-    link.download = `pickabook-personalized-${Date.now()}.png`;
+    link.download = `pickabook-personalized-${Date.now()}.${getDownloadExtension(state.resultImage)}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -190,7 +603,7 @@ export default function Home() {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept="image/jpeg,image/png,image/jpg,image/webp"
+                accept={ACCEPT_ATTRIBUTE}
                 onChange={handleFileSelect}
                 className="hidden"
               />
@@ -203,7 +616,7 @@ export default function Home() {
                   <ImageIcon className="w-16 h-16 mx-auto mb-4 text-gray-400" />
                   <p className="text-gray-600 mb-2">Click to upload an image</p>
                   <p className="text-sm text-gray-500">
-                    JPG, PNG, or WebP (max 10MB)
+                    JPG, PNG, WebP, HEIC, AVIF or GIF (max 10MB)
                   </p>
                 </div>
               ) : (
@@ -257,33 +670,97 @@ export default function Home() {
                 </div>
               ) : state.isProcessing ? (
                 <div className="border-2 border-orange-300 rounded-lg p-12 text-center bg-orange-50">
-                  <div className="flex flex-col items-center gap-4">
+                  <div className="flex flex-col items-center gap-6">
                     <div className="animate-spin rounded-full h-16 w-16 border-4 border-orange-600 border-t-transparent"></div>
                     <div className="space-y-2">
                       <p className="text-orange-800 font-medium">
-                        Creating your magical illustration...
+                        {state.stageMessage || 'Creating your magical illustration...'}
                       </p>
                       <p className="text-sm text-orange-600">
-                        This may take 30-60 seconds
+                        {state.progress}% complete
                       </p>
                     </div>
+                    <Progress
+                      value={state.progress}
+                      className="h-3 bg-orange-100 [&>div]:bg-orange-600"
+                    />
+                    <ol className="flex w-full justify-between text-xs">
+                      {PROGRESS_STAGES.map(({ stage, label }, index) => {
+                        const currentIndex = PROGRESS_STAGES.findIndex(
+                          (item) => item.stage === state.stage
+                        );
+                        return (
+                          <li
+                            key={stage}
+                            className={
+                              index < currentIndex
+                                ? 'text-orange-700'
+                                : index === currentIndex
+                                  ? 'font-semibold text-orange-900'
+                                  : 'text-orange-300'
+                            }
+                          >
+                            {label}
+                          </li>
+                        );
+                      })}
+                    </ol>
                   </div>
                 </div>
               ) : (
                 <div className="space-y-4">
                   <div className="relative rounded-lg overflow-hidden border-2 border-orange-200">
                     <img
-                      src={state.resultImage || ''}
+                      src={
+                        state.resultImage ||
+                        state.variations[selectedVariation]?.preview ||
+                        ''
+                      }
                       alt="Personalized illustration"
                       className="w-full h-80 object-cover"
                     />
                   </div>
+                  {state.variations.length > 1 && (
+                    <div className="px-10">
+                      <p className="text-sm text-gray-600 mb-2">
+                        Pick your favorite of {state.variations.length} variations
+                      </p>
+                      <Carousel opts={{ align: 'start' }}>
+                        <CarouselContent>
+                          {state.variations.map((variation, index) => (
+                            <CarouselItem key={index} className="basis-1/3">
+                              <button
+                                type="button"
+                                onClick={() => handleSelectVariation(index)}
+                                aria-pressed={selectedVariation === index}
+                                className={cn(
+                                  'block w-full rounded-md overflow-hidden border-2 transition-all',
+                                  selectedVariation === index
+                                    ? 'border-orange-500 shadow-md'
+                                    : 'border-transparent opacity-70 hover:opacity-100'
+                                )}
+                              >
+                                <img
+                                  src={variation.preview || variation.image}
+                                  alt={`Variation ${index + 1}`}
+                                  className="w-full aspect-square object-cover"
+                                />
+                              </button>
+                            </CarouselItem>
+                          ))}
+                        </CarouselContent>
+                        <CarouselPrevious />
+                        <CarouselNext />
+                      </Carousel>
+                    </div>
+                  )}
                   <Button
                     onClick={handleDownload}
+                    disabled={!state.resultImage}
                     className="w-full bg-orange-600 hover:bg-orange-700"
                   >
                     <Download className="w-4 h-4 mr-2" />
-                    Download Image
+                    {state.renderingVariation ? 'Preparing Image...' : 'Download Image'}
                   </Button>
                 </div>
               )}
@@ -291,16 +768,305 @@ export default function Home() {
           </Card>
         </div>
 
+        <Card className="shadow-lg border-2 mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <LayoutTemplate className="w-5 h-5 text-orange-600" />
+              Choose a Template
+            </CardTitle>
+            <CardDescription>
+              Pick the scene your child will appear in
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {templates.length === 0 ? (
+              <p className="text-sm text-gray-500">Loading templates...</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                {templates.map((option) => (
+                  <button
+                    key={option.name}
+                    type="button"
+                    onClick={() => selectTemplate(option)}
+                    disabled={state.isProcessing}
+                    aria-pressed={template?.name === option.name}
+                    className={cn(
+                      'rounded-lg border-2 p-2 text-left transition-all disabled:cursor-not-allowed disabled:opacity-50',
+                      template?.name === option.name
+                        ? 'border-orange-500 bg-orange-50 shadow-md'
+                        : 'border-gray-200 hover:border-orange-300'
+                    )}
+                  >
+                    {brokenThumbnails.includes(option.name) ? (
+                      <div className="w-full aspect-square rounded-md bg-gray-100 flex items-center justify-center mb-2">
+                        <ImageIcon className="w-10 h-10 text-gray-400" />
+                      </div>
+                    ) : (
+                      <img
+                        src={option.thumbnailUrl}
+                        alt={`${option.displayName} preview`}
+                        onError={() =>
+                          setBrokenThumbnails((prev) => [...prev, option.name])
+                        }
+                        className="w-full aspect-square rounded-md object-cover mb-2"
+                      />
+                    )}
+                    <p className="text-sm font-medium text-gray-900">{option.displayName}</p>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {option.tags.map((tag) => (
+                        <span
+                          key={tag}
+                          className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600"
+                        >
+                          {tag}
+                        </span>
+                      ))}
+                      {option.slotCount > 1 && (
+                        <span className="rounded-full bg-orange-100 px-2 py-0.5 text-xs text-orange-700">
+                          {option.slotCount} faces
+                        </span>
+                      )}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {extraSlots.length > 0 && (
+          <Card className="shadow-lg border-2 mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5 text-orange-600" />
+                Add More Characters
+              </CardTitle>
+              <CardDescription>
+                Your main photo goes in the &quot;{template?.slots[0].name}&quot; spot.
+                Optional spots you leave empty get an illustrated face.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+                {extraSlots.map((slot) => {
+                  const photo = extraPhotos[slot.name];
+
+                  return (
+                    <div
+                      key={slot.name}
+                      className="rounded-lg border-2 border-gray-200 p-2"
+                    >
+                      {photo ? (
+                        <img
+                          src={photo.previewUrl}
+                          alt={`${slot.name} preview`}
+                          className="w-full aspect-square rounded-md object-cover mb-2"
+                        />
+                      ) : (
+                        <div className="w-full aspect-square rounded-md bg-gray-100 flex items-center justify-center mb-2">
+                          <ImageIcon className="w-10 h-10 text-gray-400" />
+                        </div>
+                      )}
+                      <p className="text-sm font-medium text-gray-900">
+                        {slot.name}
+                        {slot.optional && (
+                          <span className="ml-1 text-xs font-normal text-gray-500">
+                            (optional)
+                          </span>
+                        )}
+                      </p>
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          asChild
+                          size="sm"
+                          variant="outline"
+                          className={cn(
+                            'flex-1',
+                            state.isProcessing && 'pointer-events-none opacity-50'
+                          )}
+                        >
+                          <label className="cursor-pointer">
+                            {photo ? 'Change' : 'Add Photo'}
+                            <input
+                              type="file"
+                              accept={ACCEPT_ATTRIBUTE}
+                              onChange={(event) =>
+                                handleExtraPhotoSelect(slot.name, event)
+                              }
+                              disabled={state.isProcessing}
+                              className="hidden"
+                            />
+                          </label>
+                        </Button>
+                        {photo && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            onClick={() => removeExtraPhoto(slot.name)}
+                            disabled={state.isProcessing}
+                            aria-label={`Remove ${slot.name} photo`}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {template && template.textFields.length > 0 && (
+          <Card className="shadow-lg border-2 mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Type className="w-5 h-5 text-orange-600" />
+                Personalize the Text
+              </CardTitle>
+              <CardDescription>
+                Printed on the page; leave a field empty to skip its caption
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid sm:grid-cols-2 gap-4">
+                {template.textFields.map((field) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`text-${field}`}>{getTextFieldLabel(field)}</Label>
+                    <Input
+                      id={`text-${field}`}
+                      value={textValues[field] ?? ''}
+                      maxLength={
+                        TEXT_FIELD_MAX_LENGTHS[field] ?? DEFAULT_TEXT_FIELD_MAX_LENGTH
+                      }
+                      onChange={(event) =>
+                        setTextValues((prev) => ({
+                          ...prev,
+                          [field]: event.target.value,
+                        }))
+                      }
+                      disabled={state.isProcessing}
+                    />
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="shadow-lg border-2 mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Palette className="w-5 h-5 text-orange-600" />
+              Choose a Style
+            </CardTitle>
+            <CardDescription>
+              Pick the look of your illustration
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+              {getStylePresets().map((preset) => (
+                <button
+                  key={preset.id}
+                  type="button"
+                  onClick={() => setStyle(preset.id)}
+                  disabled={state.isProcessing}
+                  aria-pressed={style === preset.id}
+                  className={cn(
+                    'rounded-lg border-2 p-2 text-left transition-all disabled:cursor-not-allowed disabled:opacity-50',
+                    style === preset.id
+                      ? 'border-orange-500 bg-orange-50 shadow-md'
+                      : 'border-gray-200 hover:border-orange-300'
+                  )}
+                >
+                  <img
+                    src={preset.thumbnail}
+                    alt={`${preset.name} sample`}
+                    className="w-full aspect-square rounded-md object-cover mb-2"
+                  />
+                  <p className="text-sm font-medium text-gray-900">{preset.name}</p>
+                  <p className="text-xs text-gray-500">{preset.description}</p>
+                  {template?.recommendedStyles.includes(preset.id) && (
+                    <span className="inline-block mt-2 rounded-full bg-orange-100 px-2 py-0.5 text-xs text-orange-700">
+                      Recommended
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center justify-center gap-3 mb-6">
+          <span className="text-sm text-gray-600">Variations:</span>
+          {VARIATION_COUNTS.map((count) => (
+            <Button
+              key={count}
+              type="button"
+              size="sm"
+              variant={variationCount === count ? 'default' : 'outline'}
+              onClick={() => setVariationCount(count)}
+              disabled={state.isProcessing}
+              className={cn(
+                'w-10',
+                variationCount === count && 'bg-orange-600 hover:bg-orange-700'
+              )}
+            >
+              {count}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-center gap-3 mb-6">
+          <span className="text-sm text-gray-600">Format:</span>
+          {getOutputFormats().map((format) => (
+            <Button
+              key={format}
+              type="button"
+              size="sm"
+              variant={outputFormat === format ? 'default' : 'outline'}
+              onClick={() => setOutputFormat(format)}
+              disabled={state.isProcessing}
+              className={cn(
+                'w-16 uppercase',
+                outputFormat === format && 'bg-orange-600 hover:bg-orange-700'
+              )}
+            >
+              {format}
+            </Button>
+          ))}
+        </div>
+
         <div className="text-center">
           <Button
             onClick={handleGenerate}
-            disabled={!state.file || state.isProcessing}
+            disabled={
+              !state.file ||
+              !template ||
+              missingSlots.length > 0 ||
+              state.isProcessing
+            }
             size="lg"
             className="bg-orange-600 hover:bg-orange-700 text-white px-8 py-6 text-lg shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Sparkles className="w-5 h-5 mr-2" />
             {state.isProcessing ? 'Generating...' : 'Generate Personalized Illustration'}
           </Button>
+          {state.isProcessing && (
+            <Button
+              onClick={handleCancel}
+              variant="outline"
+              size="lg"
+              className="ml-4 px-8 py-6 text-lg border-orange-300 text-orange-700 hover:bg-orange-50"
+            >
+              <X className="w-5 h-5 mr-2" />
+              Cancel
+            </Button>
+          )}
         </div>
 
         <div className="mt-12 text-center text-sm text-gray-500">
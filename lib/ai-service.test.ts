@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { AIService } from '@/lib/ai-service';
+
+const originalFetch = globalThis.fetch;
+
+// Stands in for the Replicate HTTP API: every prediction is created in
+// "starting" and is `finished` by the first poll.
+function stubReplicate(finished: Record<string, unknown>) {
+  const calls = { created: 0, polled: 0 };
+
+  globalThis.fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    const json = (body: unknown, status = 200) =>
+      new Response(JSON.stringify(body), {
+        status,
+        headers: { 'content-type': 'application/json' },
+      });
+
+    if (url.endsWith('/predictions') && init?.method === 'POST') {
+      calls.created += 1;
+      return json({ id: `p${calls.created}`, status: 'starting', logs: '' }, 201);
+    }
+    if (/\/predictions\/p\d+$/.test(url)) {
+      calls.polled += 1;
+      return json({ id: url.split('/').pop(), logs: '', ...finished });
+    }
+    throw new Error(`Unexpected request to ${url}`);
+  }) as typeof fetch;
+
+  return calls;
+}
+
+function createService() {
+  return new AIService('test-token', {
+    retry: { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 },
+  });
+}
+
+const options = {
+  imageBuffer: Buffer.from('photo'),
+  imageContentType: 'image/jpeg',
+  seed: 1,
+};
+
+describe('AIService failed predictions', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('reports a safety rejection once, without retrying', async () => {
+    const calls = stubReplicate({
+      status: 'failed',
+      error: 'NSFW content detected. Try running it again, or try a different prompt.',
+    });
+
+    const result = await createService().personalizeImage(options);
+
+    assert.equal(result.errorCode, 'CONTENT_REJECTED');
+    assert.equal(calls.created, 1);
+  });
+
+  it('reports an unusable photo as invalid input', async () => {
+    const calls = stubReplicate({ status: 'failed', error: 'No face detected in the image' });
+
+    const result = await createService().personalizeImage(options);
+
+    assert.equal(result.errorCode, 'INVALID_INPUT');
+    assert.equal(calls.created, 1);
+  });
+
+  it('does not retry a model bug', async () => {
+    const calls = stubReplicate({
+      status: 'failed',
+      error: "KeyError: 'image_embeds'",
+    });
+
+    const result = await createService().personalizeImage(options);
+
+    assert.equal(result.errorCode, 'INTERNAL_ERROR');
+    assert.match(result.error ?? '', /KeyError/);
+    assert.equal(calls.created, 1);
+  });
+
+  it('retries a GPU failure', async () => {
+    const calls = stubReplicate({ status: 'failed', error: 'CUDA out of memory' });
+
+    const result = await createService().personalizeImage(options);
+
+    assert.equal(result.errorCode, 'MODEL_UNAVAILABLE');
+    assert.equal(calls.created, 3);
+  });
+
+  it('treats a failed request as Replicate being unreachable', async () => {
+    let attempts = 0;
+    globalThis.fetch = (async () => {
+      attempts += 1;
+      throw new TypeError('fetch failed');
+    }) as typeof fetch;
+
+    const result = await createService().personalizeImage(options);
+
+    assert.equal(result.errorCode, 'MODEL_UNAVAILABLE');
+    assert.match(result.error ?? '', /Could not reach Replicate/);
+    assert.ok(attempts >= 3);
+  });
+});
@@ -1,80 +1,392 @@
-import Replicate from 'replicate';
+import Replicate, { type ApiError, type Prediction } from 'replicate';
+import { readPositiveNumberEnv } from '@/lib/env';
+import {
+  AuthFailedError,
+  CancelledError,
+  ContentRejectedError,
+  InvalidInputError,
+  ModelUnavailableError,
+  PersonalizationError,
+  RateLimitedError,
+  TimeoutError,
+  toPersonalizationError,
+} from '@/lib/errors';
+import { LocalAIService } from '@/lib/local-ai-service';
+import {
+  DEFAULT_MODEL_PROVIDER,
+  createRandomSeed,
+  getAvailableModelProviders,
+  getModelProvider,
+} from '@/lib/model-providers';
+import { DEFAULT_RETRY_OPTIONS, type RetryOptions, withRetry } from '@/lib/retry';
+import { getStylePreset } from '@/lib/style-presets';
+import type { ErrorCode } from '@/types';
+
+export interface GenerationProgress {
+  logs?: string;
+  percent?: number;
+}
 
 export interface PersonalizationOptions {
   imageBuffer: Buffer;
+  /** MIME type of `imageBuffer`, sent along in the data URI. */
+  imageContentType: string;
   prompt?: string;
+  negativePrompt?: string;
+  model?: string;
+  width?: number;
+  height?: number;
+  strength?: number;
+  seed?: number;
+  upscale?: boolean;
+  modelParams?: Record<string, unknown>;
+  onProgress?: (progress: GenerationProgress) => void;
+  signal?: AbortSignal;
 }
 
 export interface PersonalizationResult {
   imageUrl: string;
+  model?: string;
+  seed?: number;
+  params?: Record<string, unknown>;
   error?: string;
+  errorCode?: ErrorCode;
+}
+
+export interface ImagePersonalizer {
+  personalizeImage(
+    options: PersonalizationOptions
+  ): Promise<PersonalizationResult>;
+  testConnection(): Promise<boolean>;
+}
+
+const DEFAULT_SIZE = 1024;
+
+const PREDICTION_POLL_INTERVAL_MS = 1000;
+
+const FINISHED_PREDICTION_STATUSES: Prediction['status'][] = [
+  'succeeded',
+  'failed',
+  'canceled',
+];
+
+// Diffusion models log a tqdm bar per sampling pass, e.g. " 45%|████▌ | 9/20".
+const PROGRESS_PATTERN = /(\d{1,3})%\|/g;
+
+function parseProgressPercent(logs: string): number | undefined {
+  const matches = Array.from(logs.matchAll(PROGRESS_PATTERN));
+  if (matches.length === 0) {
+    return undefined;
+  }
+  return Math.min(100, Number(matches[matches.length - 1][1]));
+}
+
+export interface AIServiceOptions {
+  retry?: Partial<RetryOptions>;
+  predictionTimeoutMs?: number;
+}
+
+const DEFAULT_PREDICTION_TIMEOUT_MS = 3 * 60 * 1000;
+
+// Replicate reports safety-checker rejections only through the error text.
+const CONTENT_REJECTED_PATTERN = /nsfw|safety|inappropriate|content polic/i;
+
+const MODEL_UNAVAILABLE_PATTERN = /out of memory|cuda|unavailable|no output/i;
+
+// Models report unusable photos as prediction failures, not HTTP errors.
+const INVALID_INPUT_PATTERN = /no face|face not detected|invalid input|validation error/i;
+
+// fetch rejects with a TypeError when the request never got a response;
+// Node's socket errors carry a code such as ECONNRESET.
+function isNetworkError(error: unknown): boolean {
+  return (
+    error instanceof TypeError ||
+    typeof (error as NodeJS.ErrnoException)?.code === 'string'
+  );
+}
+
+function parseRetryAfter(response: Response): number | undefined {
+  const retryAfter = response.headers.get('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classifyReplicateError(error: unknown): PersonalizationError {
+  if (error instanceof PersonalizationError) {
+    return error;
+  }
+
+  const response = (error as Partial<ApiError>)?.response;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (!response) {
+    // fetch itself failed: DNS, connection reset, socket timeout.
+    return isNetworkError(error)
+      ? new ModelUnavailableError(`Could not reach Replicate: ${message}`)
+      : new PersonalizationError(message);
+  }
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new AuthFailedError();
+    case 429:
+      return new RateLimitedError(undefined, parseRetryAfter(response));
+    case 400:
+    case 422:
+      return new InvalidInputError(`The AI model rejected the request: ${message}`);
+    case 404:
+      return new ModelUnavailableError('The configured AI model version was not found.');
+    default:
+      return response.status >= 500
+        ? new ModelUnavailableError()
+        : new PersonalizationError(message);
+  }
 }
 
-export class AIService {
+function classifyPredictionFailure(prediction: Prediction): PersonalizationError {
+  const reason = prediction.error ? String(prediction.error) : '';
+
+  if (CONTENT_REJECTED_PATTERN.test(reason)) {
+    return new ContentRejectedError();
+  }
+
+  if (MODEL_UNAVAILABLE_PATTERN.test(reason)) {
+    return new ModelUnavailableError(`The AI model failed to run: ${reason}`);
+  }
+
+  if (INVALID_INPUT_PATTERN.test(reason)) {
+    return new InvalidInputError(`The AI model could not use the photo: ${reason}`);
+  }
+
+  return new PersonalizationError(
+    reason ? `Prediction ${prediction.status}: ${reason}` : `Prediction ${prediction.status}`
+  );
+}
+
+export class AIService implements ImagePersonalizer {
   private replicate: Replicate;
+  private retryOptions: RetryOptions;
+  private predictionTimeoutMs: number;
 
-  constructor(apiToken: string) {
+  constructor(apiToken: string, options: AIServiceOptions = {}) {
     if (!apiToken) {
-      throw new Error('REPLICATE_API_TOKEN is required');
+      throw new AuthFailedError('REPLICATE_API_TOKEN is required');
     }
     this.replicate = new Replicate({
       auth: apiToken,
     });
+    this.retryOptions = {
+      maxAttempts:
+        options.retry?.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts,
+      baseDelayMs:
+        options.retry?.baseDelayMs ?? DEFAULT_RETRY_OPTIONS.baseDelayMs,
+      maxDelayMs: options.retry?.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+    };
+    this.predictionTimeoutMs =
+      options.predictionTimeoutMs || DEFAULT_PREDICTION_TIMEOUT_MS;
   }
 
   async personalizeImage(
     options: PersonalizationOptions
   ): Promise<PersonalizationResult> {
     try {
+      const provider = getModelProvider(options.model);
+
+      if (!provider) {
+        throw new InvalidInputError(
+          `Unknown model ${options.model}. Available models: ${getAvailableModelProviders().join(', ')}`
+        );
+      }
+
       const base64Image = options.imageBuffer.toString('base64');
-      const dataUri = `data:image/jpeg;base64,${base64Image}`;
-
-      console.log('Calling Replicate API for image personalization...');
-
-      const output = await this.replicate.run(
-        'fofr/face-to-sticker:764d4827ea159608a07cdde8ddf1c6000019627515eb02b6b449695fd547e5ef',
-        {
-          input: {
-            image: dataUri,
-            steps: 20,
-            width: 1024,
-            height: 1024,
-            prompt: options.prompt || 'cute cartoon style, colorful, friendly, childrens book illustration',
-            upscale: false,
-            upscale_steps: 10,
-            negative_prompt: 'ugly, blurry, poor quality',
-            prompt_strength: 4.5,
-            ip_adapter_noise: 0.5,
-            ip_adapter_weight: 0.2,
-            instant_id_strength: 0.7,
-          },
-        }
+      const dataUri = `data:${options.imageContentType};base64,${base64Image}`;
+
+      const defaultStyle = getStylePreset()!;
+      const seed = options.seed ?? createRandomSeed();
+      const input = {
+        ...provider.buildInput({
+          imageDataUri: dataUri,
+          prompt: options.prompt || defaultStyle.prompt,
+          negativePrompt: options.negativePrompt || defaultStyle.negativePrompt,
+          width: options.width || DEFAULT_SIZE,
+          height: options.height || DEFAULT_SIZE,
+          strength: options.strength,
+          seed,
+          upscale: options.upscale,
+        }),
+        ...options.modelParams,
+      };
+
+      const output = await withRetry(
+        () => {
+          console.log(`Calling Replicate API (${provider.name}) for image personalization...`);
+          return this.runPrediction(provider.config.version, input, options);
+        },
+        this.retryOptions,
+        (error, attempt, delayMs) => {
+          console.warn(
+            `Replicate attempt ${attempt} failed (${error.message}), retrying in ${delayMs}ms`
+          );
+        },
+        options.signal
       );
 
-      if (!output || (Array.isArray(output) && output.length === 0)) {
-        throw new Error('No output received from AI model');
+      const imageUrls = provider.normalizeOutput(output);
+
+      if (imageUrls.length === 0) {
+        throw new ModelUnavailableError('No output received from AI model');
       }
 
-      const imageUrl = Array.isArray(output) ? output[0] : output;
+      const imageUrl = imageUrls[0];
 
       console.log('AI personalization successful:', imageUrl);
 
+      // Everything needed to reproduce the run, minus the photo itself.
+      const { image, input_image, ...params } = input as Record<string, unknown>;
+
       return {
-        imageUrl: imageUrl as string,
+        imageUrl,
+        model: provider.name,
+        seed,
+        params,
       };
     } catch (error) {
       console.error('AI Service Error:', error);
 
+      const failure = toPersonalizationError(error);
       return {
         imageUrl: '',
-        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        error: failure.message,
+        errorCode: failure.code,
       };
     }
   }
 
-  async testConnection(): Promise<boolean> {
+  private async runPrediction(
+    version: string,
+    input: Record<string, unknown>,
+    options: PersonalizationOptions
+  ): Promise<unknown> {
+    const { signal } = options;
+    let cancelPrediction: (() => void) | undefined;
+
     try {
-      await this.replicate.models.get('fofr', 'face-to-sticker');
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+
+      const prediction = await this.replicate.predictions.create({
+        version,
+        input,
+      });
+
+      console.log(`Created Replicate prediction ${prediction.id}`);
+
+      // Stop paying for the prediction as soon as the caller gives up,
+      // rather than waiting for the next poll to notice.
+      cancelPrediction = () => {
+        console.log(`Cancelling Replicate prediction ${prediction.id}`);
+        this.replicate.predictions.cancel(prediction.id).catch((error) => {
+          console.error(`Failed to cancel prediction ${prediction.id}:`, error);
+        });
+      };
+      if (signal?.aborted) {
+        cancelPrediction();
+      } else {
+        signal?.addEventListener('abort', cancelPrediction, { once: true });
+      }
+
+      const deadline = Date.now() + this.predictionTimeoutMs;
+      let timedOut = false;
+      let reportedLogLength = 0;
+
+      const onPoll = async (current: Prediction) => {
+        const logs = current.logs || '';
+        if (options.onProgress && logs.length > reportedLogLength) {
+          options.onProgress({
+            logs: logs.slice(reportedLogLength),
+            percent: parseProgressPercent(logs),
+          });
+          reportedLogLength = logs.length;
+        }
+
+        if (signal?.aborted) {
+          return true;
+        }
+
+        if (Date.now() > deadline) {
+          timedOut = true;
+          await this.replicate.predictions.cancel(current.id);
+          return true;
+        }
+        return false;
+      };
+
+      const completed = await this.waitForPrediction(prediction, onPoll);
+
+      if (signal?.aborted) {
+        throw new CancelledError();
+      }
+
+      if (timedOut) {
+        throw new TimeoutError(
+          `Prediction ${prediction.id} did not finish within ${this.predictionTimeoutMs / 1000}s`
+        );
+      }
+
+      await onPoll(completed);
+
+      if (completed.status !== 'succeeded') {
+        throw classifyPredictionFailure(completed);
+      }
+
+      return completed.output;
+    } catch (error) {
+      throw classifyReplicateError(error);
+    } finally {
+      if (cancelPrediction) {
+        signal?.removeEventListener('abort', cancelPrediction);
+      }
+    }
+  }
+
+  // replicate.wait() throws a bare Error for failed predictions, losing
+  // the status and error message they are classified by, so poll here.
+  // Returns early, unfinished, when `stop` returns true.
+  private async waitForPrediction(
+    prediction: Prediction,
+    stop: (current: Prediction) => Promise<boolean>
+  ): Promise<Prediction> {
+    let current = prediction;
+    while (!FINISHED_PREDICTION_STATUSES.includes(current.status)) {
+      if (await stop(current)) {
+        return current;
+      }
+      await new Promise((resolve) => setTimeout(resolve, PREDICTION_POLL_INTERVAL_MS));
+      current = await this.replicate.predictions.get(current.id);
+    }
+    return current;
+  }
+
+  async testConnection(model: string = DEFAULT_MODEL_PROVIDER): Promise<boolean> {
+    try {
+      const provider = getModelProvider(model);
+      if (!provider) {
+        throw new Error(`Unknown model ${model}`);
+      }
+
+      const [owner, name] = provider.config.modelId.split('/');
+      await this.replicate.models.get(owner, name);
       return true;
     } catch (error) {
       console.error('Failed to connect to Replicate:', error);
@@ -83,16 +395,27 @@ export class AIService {
   }
 }
 
-export function createAIService(): AIService {
+export function createAIService(): ImagePersonalizer {
+  if (process.env.AI_PROVIDER === 'local') {
+    return new LocalAIService();
+  }
+
   const apiToken = process.env.REPLICATE_API_TOKEN;
 
   if (!apiToken) {
-    throw new Error(
+    throw new AuthFailedError(
       'REPLICATE_API_TOKEN environment variable is not set. ' +
       'Please add it to your .env.local file. ' +
       'Get your token from: https://replicate.com/account/api-tokens'
     );
   }
 
-  return new AIService(apiToken);
+  return new AIService(apiToken, {
+    retry: {
+      maxAttempts: readPositiveNumberEnv('REPLICATE_MAX_ATTEMPTS'),
+      baseDelayMs: readPositiveNumberEnv('REPLICATE_RETRY_BASE_DELAY_MS'),
+      maxDelayMs: readPositiveNumberEnv('REPLICATE_RETRY_MAX_DELAY_MS'),
+    },
+    predictionTimeoutMs: readPositiveNumberEnv('REPLICATE_PREDICTION_TIMEOUT_MS'),
+  });
 }
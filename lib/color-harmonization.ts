@@ -0,0 +1,205 @@
+import sharp from 'sharp';
+import type { SlotBounds } from '@/lib/slot-geometry';
+
+export interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: number;
+}
+
+export interface LabStats {
+  mean: [number, number, number];
+  std: [number, number, number];
+}
+
+// Keep the transfer from blowing up flat faces or crushing busy ones.
+const MIN_STD_RATIO = 0.5;
+const MAX_STD_RATIO = 2;
+const MIN_STD = 1e-3;
+
+// D65 reference white.
+const WHITE = [0.95047, 1, 1.08883];
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function fromLinear(c: number): number {
+  const v = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+  return Math.min(255, Math.max(0, Math.round(v * 255)));
+}
+
+function labF(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (t * 24389) / 27 / 116 + 16 / 116;
+}
+
+function labFInverse(t: number): number {
+  return t > 6 / 29 ? t * t * t : (116 * t - 16) / (24389 / 27);
+}
+
+export function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE[0]);
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE[1]);
+  const fz = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE[2]);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+export function labToRgb(l: number, a: number, bStar: number): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const x = labFInverse(fy + a / 500) * WHITE[0];
+  const y = labFInverse(fy) * WHITE[1];
+  const z = labFInverse(fy - bStar / 200) * WHITE[2];
+
+  return [
+    fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  ];
+}
+
+interface Region {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Lab statistics of the pixels for which `weight` returns more than zero,
+ * weighted by its value. Only pixels inside `region` (exclusive right and
+ * bottom edges) are visited; it defaults to the whole image.
+ */
+function getLabStats(
+  image: RawImage,
+  weight: (x: number, y: number, offset: number) => number,
+  region: Region = { left: 0, top: 0, right: image.width, bottom: image.height }
+): LabStats | undefined {
+  const sum = [0, 0, 0];
+  const sumSquares = [0, 0, 0];
+  let total = 0;
+
+  for (let y = region.top; y < region.bottom; y++) {
+    for (let x = region.left; x < region.right; x++) {
+      const offset = (y * image.width + x) * image.channels;
+      const w = weight(x, y, offset);
+      if (w <= 0) {
+        continue;
+      }
+
+      const lab = rgbToLab(
+        image.data[offset],
+        image.data[offset + 1],
+        image.data[offset + 2]
+      );
+      for (let ch = 0; ch < 3; ch++) {
+        sum[ch] += lab[ch] * w;
+        sumSquares[ch] += lab[ch] * lab[ch] * w;
+      }
+      total += w;
+    }
+  }
+
+  if (total === 0) {
+    return undefined;
+  }
+
+  const mean = sum.map((value) => value / total) as LabStats['mean'];
+  const std = sumSquares.map((value, ch) =>
+    Math.sqrt(Math.max(0, value / total - mean[ch] * mean[ch]))
+  ) as LabStats['std'];
+
+  return { mean, std };
+}
+
+/**
+ * Samples the template in a ring `margin` pixels wide around a slot,
+ * leaving out the slot itself, which usually holds placeholder art.
+ */
+export function getSurroundingStats(
+  template: RawImage,
+  bounds: SlotBounds,
+  margin: number
+): LabStats | undefined {
+  // Only the ring's bounding box is scanned; at print scale the whole
+  // template is tens of millions of pixels.
+  const ring = {
+    left: Math.max(0, Math.floor(bounds.left - margin)),
+    top: Math.max(0, Math.floor(bounds.top - margin)),
+    right: Math.min(template.width, Math.ceil(bounds.left + bounds.width + margin)),
+    bottom: Math.min(template.height, Math.ceil(bounds.top + bounds.height + margin)),
+  };
+
+  return getLabStats(
+    template,
+    (x, y) => {
+      const inSlot =
+        x >= bounds.left &&
+        x < bounds.left + bounds.width &&
+        y >= bounds.top &&
+        y < bounds.top + bounds.height;
+      return inSlot ? 0 : 1;
+    },
+    ring
+  );
+}
+
+/**
+ * Shifts the face's Lab mean and standard deviation towards `target`
+ * (Reinhard-style color transfer). `strength` 0 leaves the face untouched,
+ * 1 matches the target fully. Face statistics are weighted by alpha so only
+ * the visible part of a masked face counts; alpha itself is kept.
+ */
+export async function harmonizeFace(
+  face: Buffer,
+  target: LabStats,
+  strength: number
+): Promise<Buffer> {
+  const { data, info } = await sharp(face)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const image: RawImage = {
+    data,
+    width: info.width,
+    height: info.height,
+    channels: info.channels,
+  };
+
+  const source = getLabStats(image, (_x, _y, offset) => data[offset + 3] / 255);
+  if (!source || strength <= 0) {
+    return face;
+  }
+
+  const scale = source.std.map((std, ch) =>
+    Math.min(
+      MAX_STD_RATIO,
+      Math.max(MIN_STD_RATIO, target.std[ch] / Math.max(std, MIN_STD))
+    )
+  );
+
+  for (let offset = 0; offset < data.length; offset += 4) {
+    const lab = rgbToLab(data[offset], data[offset + 1], data[offset + 2]);
+    const adjusted = lab.map((value, ch) => {
+      const matched = (value - source.mean[ch]) * scale[ch] + target.mean[ch];
+      return value + (matched - value) * strength;
+    });
+    const [r, g, b] = labToRgb(adjusted[0], adjusted[1], adjusted[2]);
+
+    data[offset] = r;
+    data[offset + 1] = g;
+    data[offset + 2] = b;
+  }
+
+  return sharp(data, {
+    raw: { width: info.width, height: info.height, channels: 4 },
+  })
+    .png()
+    .toBuffer();
+}
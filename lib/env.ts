@@ -0,0 +1,8 @@
+/**
+ * Reads a positive number from an environment variable; unset, empty or
+ * invalid values give `undefined` so callers fall back to their default.
+ */
+export function readPositiveNumberEnv(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
@@ -0,0 +1,96 @@
+import type { ErrorCode } from '@/types';
+
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  RATE_LIMITED: 429,
+  CONTENT_REJECTED: 422,
+  TIMEOUT: 504,
+  AUTH_FAILED: 502,
+  MODEL_UNAVAILABLE: 503,
+  INVALID_INPUT: 400,
+  // Non-standard, but the de facto "client closed request" status.
+  CANCELLED: 499,
+  INTERNAL_ERROR: 500,
+};
+
+const RETRYABLE_CODES: ErrorCode[] = [
+  'RATE_LIMITED',
+  'TIMEOUT',
+  'MODEL_UNAVAILABLE',
+];
+
+/**
+ * Base class for failures we can explain to the client. The code is part of
+ * the API contract; the HTTP status and retryability follow from it.
+ */
+export class PersonalizationError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: ErrorCode = 'INTERNAL_ERROR') {
+    super(message);
+    // Keep instanceof working when compiled down to ES5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.retryable = RETRYABLE_CODES.includes(code);
+  }
+}
+
+export class RateLimitedError extends PersonalizationError {
+  constructor(
+    message = 'Too many requests to the AI model. Please try again shortly.',
+    readonly retryAfterMs?: number
+  ) {
+    super(message, 'RATE_LIMITED');
+  }
+}
+
+export class ContentRejectedError extends PersonalizationError {
+  constructor(
+    message = 'The image was rejected by the content safety filter. Please try a different photo.'
+  ) {
+    super(message, 'CONTENT_REJECTED');
+  }
+}
+
+export class TimeoutError extends PersonalizationError {
+  constructor(message = 'The AI model took too long to respond.') {
+    super(message, 'TIMEOUT');
+  }
+}
+
+export class AuthFailedError extends PersonalizationError {
+  constructor(message = 'The AI provider rejected our credentials.') {
+    super(message, 'AUTH_FAILED');
+  }
+}
+
+export class ModelUnavailableError extends PersonalizationError {
+  constructor(message = 'The AI model is currently unavailable.') {
+    super(message, 'MODEL_UNAVAILABLE');
+  }
+}
+
+export class InvalidInputError extends PersonalizationError {
+  constructor(message: string) {
+    super(message, 'INVALID_INPUT');
+  }
+}
+
+export class CancelledError extends PersonalizationError {
+  constructor(message = 'The request was cancelled.') {
+    super(message, 'CANCELLED');
+  }
+}
+
+export function toPersonalizationError(error: unknown): PersonalizationError {
+  if (error instanceof PersonalizationError) {
+    return error;
+  }
+
+  return new PersonalizationError(
+    error instanceof Error ? error.message : 'Unknown error occurred'
+  );
+}
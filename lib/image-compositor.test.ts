@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import sharp from 'sharp';
+import { createImageCompositor } from '@/lib/image-compositor';
+import { templateManifestSchema } from '@/lib/template-manifest';
+
+describe('ImageCompositor template lookup', () => {
+  let templatesDir: string;
+
+  before(async () => {
+    templatesDir = await fs.mkdtemp(path.join(os.tmpdir(), 'templates-'));
+    const manifest = JSON.parse(
+      await fs.readFile(path.join(process.cwd(), 'public/templates/template1.json'), 'utf8')
+    );
+    await fs.writeFile(
+      path.join(templatesDir, 'good.json'),
+      JSON.stringify({ ...manifest, name: 'good' })
+    );
+    await fs.writeFile(
+      path.join(templatesDir, 'broken.json'),
+      JSON.stringify({ ...manifest, name: 'broken', outputSize: 'large' })
+    );
+    process.env.TEMPLATES_DIR = templatesDir;
+  });
+
+  after(async () => {
+    delete process.env.TEMPLATES_DIR;
+    await fs.rm(templatesDir, { recursive: true, force: true });
+  });
+
+  it('looks up a valid template next to a broken one', async () => {
+    const compositor = createImageCompositor();
+
+    assert.equal((await compositor.getTemplateConfig('good'))?.name, 'good');
+    assert.equal(await compositor.getTemplateConfig('broken'), undefined);
+  });
+
+  it('lists the same templates it looks up', async () => {
+    const compositor = createImageCompositor();
+
+    assert.deepEqual(await compositor.getAvailableTemplates(), ['good']);
+  });
+});
+
+async function solidFace(r: number, g: number, b: number): Promise<string> {
+  const png = await sharp({
+    create: { width: 64, height: 64, channels: 3, background: { r, g, b } },
+  })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+async function pixelAt(dataUri: string, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(Buffer.from(dataUri.split(',')[1], 'base64'))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const offset = (y * info.width + x) * info.channels;
+  return Array.from(data.subarray(offset, offset + 3));
+}
+
+describe('ImageCompositor without template art', () => {
+  it('paints every slot on a blank page of the output size', async () => {
+    const manifest = JSON.parse(
+      await fs.readFile(path.join(process.cwd(), 'public/templates/template2.json'), 'utf8')
+    );
+    const template = templateManifestSchema.parse({
+      ...manifest,
+      name: 'no-art',
+      image: 'missing-background.png',
+      harmonization: undefined,
+      print: undefined,
+      outputSize: { width: 400, height: 200 },
+      faceSlots: [
+        { name: 'left', x: 20, y: 50, width: 100, height: 100 },
+        { name: 'right', x: 280, y: 50, width: 100, height: 100 },
+      ],
+      textSlots: [],
+    });
+
+    const result = await createImageCompositor().compositeOnTemplate({
+      template,
+      faces: { left: await solidFace(255, 0, 0), right: await solidFace(0, 0, 255) },
+      output: { format: 'png' },
+    });
+
+    assert.equal(result.error, undefined);
+    const { width, height } = await sharp(
+      Buffer.from(result.base64Image.split(',')[1], 'base64')
+    ).metadata();
+    assert.deepEqual({ width, height }, { width: 400, height: 200 });
+    assert.deepEqual(await pixelAt(result.base64Image, 70, 100), [255, 0, 0]);
+    assert.deepEqual(await pixelAt(result.base64Image, 330, 100), [0, 0, 255]);
+    assert.deepEqual(await pixelAt(result.base64Image, 200, 100), [255, 255, 255]);
+  });
+});
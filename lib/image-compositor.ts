@@ -1,60 +1,80 @@
 import sharp from 'sharp';
-import path from 'path';
 import fs from 'fs/promises';
+import {
+  getSurroundingStats,
+  harmonizeFace,
+  type RawImage,
+} from '@/lib/color-harmonization';
+import { applySlotMask } from '@/lib/slot-mask';
+import { renderTextLayer } from '@/lib/text-renderer';
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  OUTPUT_FORMATS,
+  PRINT_FORMATS,
+} from '@/lib/output-format';
+import { exportForPrint, getPrintScale } from '@/lib/print-export';
+import { fetchRemoteImage } from '@/lib/remote-image';
+import { renderPipeline } from '@/lib/sharp-pipeline';
+import { getSlotBounds, isWarpedSlot, warpFaceToSlot } from '@/lib/slot-geometry';
+import {
+  getTemplateAssetPath,
+  getTemplateImagePath,
+  getTemplateLayers,
+  loadValidTemplates,
+  scaleTemplateConfig,
+  type FaceSlot,
+  type TemplateConfig,
+  type TemplateLayer,
+  type TextSlot,
+} from '@/lib/template-manifest';
+
+import type { OutputOptions, PrintOptions } from '@/types';
+
+export type { TemplateConfig };
+
+export type CompositeStage = 'downloading' | 'compositing' | 'encoding';
+
+// Stands in for a template whose background image is missing.
+const BLANK_CANVAS_COLOR = { r: 255, g: 255, b: 255, alpha: 1 };
 
 export interface CompositeOptions {
-  aiGeneratedImageUrl: string;
+  /** Generated face image URLs keyed by slot name. */
+  faces: Record<string, string>;
+  /** Values for the template's `{{field}}` text placeholders. */
+  text?: Record<string, string | undefined>;
   templateName?: string;
+  /** Already-loaded template to use instead of looking up `templateName`. */
+  template?: TemplateConfig;
+  output?: OutputOptions;
+  /** Renders a 300 DPI print file instead; `output` is ignored. */
+  print?: PrintOptions;
+  onStage?: (stage: CompositeStage) => void;
+  signal?: AbortSignal;
 }
 
 export interface CompositeResult {
   base64Image: string;
+  contentType?: string;
   error?: string;
 }
 
-export interface TemplateConfig {
-  name: string;
-  facePosition: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-}
-
-const TEMPLATES: Record<string, TemplateConfig> = {
-  template1: {
-    name: 'template1',
-    facePosition: {
-      x: 300,
-      y: 150,
-      width: 400,
-      height: 400,
-    },
-  },
-  template2: {
-    name: 'template2',
-    facePosition: {
-      x: 250,
-      y: 100,
-      width: 500,
-      height: 500,
-    },
-  },
-};
-
 export class ImageCompositor {
-  async downloadImage(url: string): Promise<Buffer> {
-    try {
-      console.log('Downloading AI-generated image from:', url);
-      const response = await fetch(url);
+  async getTemplateConfig(
+    templateName: string
+  ): Promise<TemplateConfig | undefined> {
+    const templates = await loadValidTemplates();
+    return templates.get(templateName);
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to download image: ${response.statusText}`);
+  async downloadImage(url: string, signal?: AbortSignal): Promise<Buffer> {
+    try {
+      if (url.startsWith('data:')) {
+        const base64Data = url.slice(url.indexOf(',') + 1);
+        return Buffer.from(base64Data, 'base64');
       }
 
-      const arrayBuffer = await response.arrayBuffer();
-      return Buffer.from(arrayBuffer);
+      console.log('Downloading AI-generated image from:', url);
+      return await fetchRemoteImage(url, { signal });
     } catch (error) {
       console.error('Error downloading image:', error);
       throw error;
@@ -65,19 +85,29 @@ export class ImageCompositor {
     options: CompositeOptions
   ): Promise<CompositeResult> {
     try {
-      const templateName = options.templateName || 'template1';
-      const templateConfig = TEMPLATES[templateName];
+      const templateName =
+        options.template?.name || options.templateName || 'template1';
+      const loadedConfig =
+        options.template ?? (await this.getTemplateConfig(templateName));
 
-      if (!templateConfig) {
+      if (!loadedConfig) {
         throw new Error(`Template ${templateName} not found`);
       }
 
-      const templatePath = path.join(
-        process.cwd(),
-        'public',
-        'templates',
-        `${templateName}.png`
-      );
+      if (options.print && !loadedConfig.print) {
+        throw new Error(`Template ${templateName} has no print size`);
+      }
+
+      // Print files are rendered at full resolution rather than upscaled
+      // afterwards, so text and masks stay sharp.
+      const templateConfig = loadedConfig.print && options.print
+        ? scaleTemplateConfig(
+            loadedConfig,
+            getPrintScale(loadedConfig.print, loadedConfig.outputSize.width)
+          )
+        : loadedConfig;
+
+      const templatePath = getTemplateImagePath(templateConfig);
 
       console.log('Loading template from:', templatePath);
 
@@ -86,57 +116,95 @@ export class ImageCompositor {
         await fs.access(templatePath);
         templateExists = true;
       } catch (err) {
-        console.warn(`Template ${templateName}.png not found, using AI image directly`);
+        console.warn(`Template ${templateConfig.image} not found, using a blank canvas`);
       }
 
-      const aiImageBuffer = await this.downloadImage(
-        options.aiGeneratedImageUrl
+      options.onStage?.('downloading');
+      const faceBuffers = await this.loadSlotFaces(
+        templateConfig.faceSlots,
+        options.faces,
+        options.signal
       );
 
-      if (!templateExists) {
-        const resizedImage = await sharp(aiImageBuffer)
-          .resize(1024, 1024, {
-            fit: 'cover',
-            position: 'center',
-          })
-          .toBuffer();
-
-        const base64Image = resizedImage.toString('base64');
-        return {
-          base64Image: `data:image/png;base64,${base64Image}`,
-        };
-      }
+      const { outputSize } = templateConfig;
 
-      const { x, y, width, height } = templateConfig.facePosition;
+      options.onStage?.('compositing');
+      const textValues = options.text ?? {};
 
-      const resizedFace = await sharp(aiImageBuffer)
-        .resize(width, height, {
-          fit: 'cover',
-          position: 'center',
-        })
-        .toBuffer();
+      // Without its art the template still gets every slot, mask and
+      // layer, painted on a blank page of the same size.
+      const templateImage = templateExists
+        ? sharp(await fs.readFile(templatePath)).resize(
+            outputSize.width,
+            outputSize.height,
+            { fit: 'fill' }
+          )
+        : sharp({
+            create: {
+              width: outputSize.width,
+              height: outputSize.height,
+              channels: 4,
+              background: BLANK_CANVAS_COLOR,
+            },
+          });
 
-      const templateBuffer = await fs.readFile(templatePath);
+      // A blank page has no colors to match; harmonizing against it would
+      // only wash the faces out.
+      let templatePixels: RawImage | undefined;
+      if (templateExists && templateConfig.harmonization) {
+        const { data, info } = await templateImage
+          .clone()
+          .removeAlpha()
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        templatePixels = { data, ...info };
+      }
+      const harmonization =
+        templatePixels && templateConfig.harmonization
+          ? { template: templatePixels, ...templateConfig.harmonization }
+          : undefined;
+
+      // Layers are painted bottom to top over the background, so
+      // foreground art such as a helmet or crown can overlap a face.
+      const layers = await Promise.all(
+        getTemplateLayers(templateConfig).map(
+          async (layer): Promise<sharp.OverlayOptions[]> => {
+            switch (layer.type) {
+              case 'face': {
+                const index = templateConfig.faceSlots.findIndex(
+                  (slot) => slot.name === layer.slot
+                );
+                return [
+                  await this.renderSlotLayer(
+                    templateConfig.faceSlots[index],
+                    faceBuffers[index],
+                    harmonization
+                  ),
+                ];
+              }
+              case 'text': {
+                const slot = templateConfig.textSlots.find(
+                  (textSlot) => textSlot.name === layer.slot
+                );
+                return slot
+                  ? this.renderTextSlotLayer(slot, textValues, outputSize)
+                  : [];
+              }
+              default:
+                return [await this.renderImageLayer(layer, outputSize)];
+            }
+          }
+        )
+      );
 
-      const compositedImage = await sharp(templateBuffer)
-        .composite([
-          {
-            input: resizedFace,
-            top: y,
-            left: x,
-            blend: 'over',
-          },
-        ])
-        .png()
-        .toBuffer();
+      const composited = templateImage.composite(layers.flat());
 
-      const base64Image = compositedImage.toString('base64');
+      options.onStage?.('encoding');
+      const encoded = await this.encode(composited, templateConfig, options);
 
       console.log('Image composition successful');
 
-      return {
-        base64Image: `data:image/png;base64,${base64Image}`,
-      };
+      return encoded;
     } catch (error) {
       console.error('Image Compositor Error:', error);
 
@@ -147,18 +215,186 @@ export class ImageCompositor {
     }
   }
 
-  async getAvailableTemplates(): Promise<string[]> {
-    const templatesDir = path.join(process.cwd(), 'public', 'templates');
+  // Faces in slot order. Optional slots without a generated face show the
+  // slot's illustrated default face instead.
+  private async loadSlotFaces(
+    slots: FaceSlot[],
+    faces: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<Buffer[]> {
+    return Promise.all(
+      slots.map((slot) => {
+        const url = faces[slot.name];
+        if (url) {
+          return this.downloadImage(url, signal);
+        }
 
-    try {
-      const files = await fs.readdir(templatesDir);
-      return files
-        .filter((file) => file.endsWith('.png'))
-        .map((file) => file.replace('.png', ''));
-    } catch (error) {
-      console.warn('Templates directory not found:', error);
-      return [];
+        if (!slot.optional) {
+          throw new Error(`No face provided for slot ${slot.name}`);
+        }
+
+        console.log(`Using default face for slot ${slot.name}`);
+        return fs.readFile(getTemplateAssetPath(slot.defaultFace));
+      })
+    );
+  }
+
+  private async renderSlotLayer(
+    slot: FaceSlot,
+    face: Buffer,
+    harmonization?: { template: RawImage; strength: number; margin: number }
+  ): Promise<sharp.OverlayOptions> {
+    const { width, height, mask } = slot;
+
+    let resizedFace = await sharp(face)
+      .resize(width, height, {
+        fit: 'cover',
+        position: 'center',
+      })
+      .png()
+      .toBuffer();
+
+    if (mask) {
+      resizedFace = await applySlotMask(resizedFace, mask, width, height);
     }
+
+    if (harmonization) {
+      const target = getSurroundingStats(
+        harmonization.template,
+        getSlotBounds(slot),
+        harmonization.margin
+      );
+      if (target) {
+        resizedFace = await harmonizeFace(
+          resizedFace,
+          target,
+          harmonization.strength
+        );
+      }
+    }
+
+    // Rotated and quad slots are warped into their bounding box; plain
+    // slots are pasted at x/y as-is.
+    let placement = { left: slot.x, top: slot.y };
+    if (isWarpedSlot(slot)) {
+      resizedFace = await warpFaceToSlot(resizedFace, slot);
+      placement = getSlotBounds(slot);
+    }
+
+    return {
+      input: resizedFace,
+      top: placement.top,
+      left: placement.left,
+      blend: 'over',
+    };
+  }
+
+  private async encode(
+    image: sharp.Sharp,
+    template: TemplateConfig,
+    options: CompositeOptions
+  ): Promise<CompositeResult> {
+    if (!options.print || !template.print) {
+      return this.encodeOutput(image, options.output);
+    }
+
+    const { contentType } = PRINT_FORMATS[options.print.format];
+    const buffer = await exportForPrint(
+      image,
+      template.print,
+      {
+        format: options.print.format,
+        bleed: options.print.bleed ?? template.print.bleed,
+        cropMarks: options.print.cropMarks ?? false,
+      },
+      template.displayName
+    );
+
+    return {
+      base64Image: `data:${contentType};base64,${buffer.toString('base64')}`,
+      contentType,
+    };
+  }
+
+  private async encodeOutput(
+    image: sharp.Sharp,
+    output?: OutputOptions
+  ): Promise<CompositeResult> {
+    const format = output?.format ?? DEFAULT_OUTPUT_FORMAT;
+    const { contentType, defaultQuality } = OUTPUT_FORMATS[format];
+    const quality = output?.quality ?? defaultQuality;
+
+    let pipeline = image;
+    if (output?.width) {
+      pipeline = (await renderPipeline(image)).resize({ width: output.width });
+    }
+
+    switch (format) {
+      case 'jpeg':
+        // JPEG has no alpha; transparent areas would turn black.
+        pipeline = pipeline
+          .flatten({ background: '#ffffff' })
+          .jpeg({ quality, mozjpeg: true });
+        break;
+      case 'webp':
+        pipeline = pipeline.webp({ quality });
+        break;
+      case 'avif':
+        pipeline = pipeline.avif({ quality });
+        break;
+      default:
+        pipeline = pipeline.png();
+    }
+
+    const buffer = await pipeline.toBuffer();
+
+    return {
+      base64Image: `data:${contentType};base64,${buffer.toString('base64')}`,
+      contentType,
+    };
+  }
+
+  private async renderTextSlotLayer(
+    slot: TextSlot,
+    values: Record<string, string | undefined>,
+    size: { width: number; height: number }
+  ): Promise<sharp.OverlayOptions[]> {
+    const layer = await renderTextLayer([slot], values, size);
+    return layer ? [{ input: layer, top: 0, left: 0 }] : [];
+  }
+
+  private async renderImageLayer(
+    layer: Extract<TemplateLayer, { type: 'image' }>,
+    size: { width: number; height: number }
+  ): Promise<sharp.OverlayOptions> {
+    const assetPath = getTemplateAssetPath(layer.image);
+    const width = layer.width ?? size.width;
+
+    // Rasterize vector art at the size it is drawn, not its nominal size.
+    const { format, width: nominalWidth } = await sharp(assetPath).metadata();
+    const density =
+      format === 'svg' && nominalWidth
+        ? Math.max(72, (72 * width) / nominalWidth)
+        : undefined;
+
+    const input = await sharp(assetPath, { density })
+      .resize(width, layer.height ?? size.height, {
+        fit: 'fill',
+      })
+      .png()
+      .toBuffer();
+
+    return { input, top: layer.y, left: layer.x, blend: 'over' };
+  }
+
+  async getTemplates(): Promise<TemplateConfig[]> {
+    const templates = await loadValidTemplates();
+    return Array.from(templates.values());
+  }
+
+  async getAvailableTemplates(): Promise<string[]> {
+    const templates = await this.getTemplates();
+    return templates.map((template) => template.name);
   }
 }
 
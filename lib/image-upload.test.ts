@@ -0,0 +1,124 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import sharp from 'sharp';
+import { detectImageType, normalizeUpload } from '@/lib/image-upload';
+
+function solid(width: number, height: number, channels: 3 | 4 = 3): sharp.Sharp {
+  return sharp({
+    create: { width, height, channels, background: { r: 200, g: 120, b: 80, alpha: 0.5 } },
+  });
+}
+
+// An ISO media "ftyp" box: size, major brand, minor version and
+// compatible brands, as at the start of HEIC and AVIF files.
+function ftyp(major: string, compatible: string[] = []): Buffer {
+  const size = 16 + compatible.length * 4;
+  const box = Buffer.alloc(size);
+  box.writeUInt32BE(size, 0);
+  box.write('ftyp', 4, 'latin1');
+  box.write(major, 8, 'latin1');
+  compatible.forEach((brand, index) => box.write(brand, 16 + index * 4, 'latin1'));
+  return box;
+}
+
+describe('detectImageType', () => {
+  const images: Record<string, Buffer> = {};
+
+  before(async () => {
+    images.jpeg = await solid(8, 8).jpeg().toBuffer();
+    images.png = await solid(8, 8).png().toBuffer();
+    images.webp = await solid(8, 8).webp().toBuffer();
+    images.gif = await solid(8, 8).gif().toBuffer();
+  });
+
+  it('recognizes JPEG, PNG, WebP and GIF by their magic bytes', () => {
+    assert.equal(detectImageType(images.jpeg), 'image/jpeg');
+    assert.equal(detectImageType(images.png), 'image/png');
+    assert.equal(detectImageType(images.webp), 'image/webp');
+    assert.equal(detectImageType(images.gif), 'image/gif');
+  });
+
+  it('tells AVIF from HEIC by the ftyp brands', () => {
+    assert.equal(detectImageType(ftyp('avif', ['mif1', 'miaf'])), 'image/avif');
+    assert.equal(detectImageType(ftyp('mif1', ['avif'])), 'image/avif');
+    assert.equal(detectImageType(ftyp('heic', ['mif1', 'heic'])), 'image/heic');
+    assert.equal(detectImageType(ftyp('mif1', ['heic'])), 'image/heic');
+  });
+
+  it('recognizes nothing else', () => {
+    assert.equal(detectImageType(Buffer.from('%PDF-1.7')), undefined);
+    assert.equal(detectImageType(ftyp('isom', ['mp41'])), undefined);
+    assert.equal(detectImageType(Buffer.alloc(0)), undefined);
+  });
+});
+
+describe('normalizeUpload', () => {
+  let jpeg: Buffer;
+
+  before(async () => {
+    jpeg = await solid(64, 48).jpeg().toBuffer();
+  });
+
+  it('goes by the bytes when no type was declared', async () => {
+    for (const declaredType of ['', 'application/octet-stream']) {
+      const image = await normalizeUpload(jpeg, declaredType);
+      assert.equal(image.contentType, 'image/jpeg');
+    }
+  });
+
+  it('accepts the image/jpg alias', async () => {
+    assert.equal((await normalizeUpload(jpeg, 'image/jpg')).contentType, 'image/jpeg');
+  });
+
+  it('keeps transparency as PNG and converts other formats', async () => {
+    const png = await solid(16, 16, 4).png().toBuffer();
+    const webp = await solid(16, 16).webp().toBuffer();
+
+    assert.equal((await normalizeUpload(png, 'image/png')).contentType, 'image/png');
+    assert.equal((await normalizeUpload(webp, 'image/webp')).contentType, 'image/jpeg');
+  });
+
+  it('refuses a file declared as another type than it contains', async () => {
+    await assert.rejects(normalizeUpload(jpeg, 'image/png', ' for slot "hero"'), {
+      name: 'InvalidInputError',
+      message: 'File for slot "hero" is declared as image/png but contains image/jpeg',
+    });
+  });
+
+  it('refuses files that are not a supported image', async () => {
+    await assert.rejects(normalizeUpload(Buffer.from('%PDF-1.7'), ''), {
+      message: 'File is not a JPEG, PNG, WebP, HEIC, AVIF or GIF image',
+    });
+  });
+
+  it('refuses corrupt and truncated images', async () => {
+    const corrupt = Buffer.concat([jpeg.subarray(0, 3), Buffer.alloc(200, 0x42)]);
+    await assert.rejects(normalizeUpload(corrupt, 'image/jpeg'), {
+      message: 'File could not be read as an image',
+    });
+
+    const photo = await sharp({
+      create: {
+        width: 512,
+        height: 384,
+        channels: 3,
+        background: '#000',
+        noise: { type: 'gaussian', mean: 128, sigma: 40 },
+      },
+    })
+      .jpeg()
+      .toBuffer();
+    const truncated = photo.subarray(0, Math.floor(photo.length * 0.6));
+    await assert.rejects(normalizeUpload(truncated, 'image/jpeg'), {
+      message: 'File is damaged and could not be decoded',
+    });
+  });
+
+  it('refuses images over 50 megapixels before decoding them', async () => {
+    const huge = await solid(8000, 6500).jpeg({ quality: 10 }).toBuffer();
+
+    await assert.rejects(normalizeUpload(huge, 'image/jpeg'), {
+      message: 'Image is too large (8000x6500). Maximum: 50 megapixels',
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import decodeHeic from 'heic-decode';
+import sharp from 'sharp';
+import { InvalidInputError } from '@/lib/errors';
+
+// Well above any phone camera, well below what it takes to exhaust memory
+// decoding a small file that claims enormous dimensions.
+export const MAX_INPUT_PIXELS = 50 * 1000 * 1000;
+
+const JPEG_QUALITY = 92;
+
+export type NormalizedImageType = 'image/jpeg' | 'image/png';
+
+export interface NormalizedImage {
+  buffer: Buffer;
+  contentType: NormalizedImageType;
+}
+
+interface Signature {
+  contentType: string;
+  matches(buffer: Buffer): boolean;
+}
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, index) => buffer[offset + index] === byte);
+}
+
+// HEIF files are ISO media files that open with a "ftyp" box: its size,
+// the major brand, a version, then compatible brands.
+function getBrands(buffer: Buffer): string[] {
+  if (buffer.toString('latin1', 4, 8) !== 'ftyp') {
+    return [];
+  }
+
+  const end = Math.min(buffer.readUInt32BE(0), buffer.length);
+  const brands = [buffer.toString('latin1', 8, 12)];
+  for (let offset = 16; offset + 4 <= end; offset += 4) {
+    brands.push(buffer.toString('latin1', offset, offset + 4));
+  }
+  return brands;
+}
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const SIGNATURES: Signature[] = [
+  {
+    contentType: 'image/jpeg',
+    matches: (buffer) => startsWith(buffer, [0xff, 0xd8, 0xff]),
+  },
+  {
+    contentType: 'image/png',
+    matches: (buffer) =>
+      startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    // "RIFF" <size> "WEBP"
+    contentType: 'image/webp',
+    matches: (buffer) =>
+      startsWith(buffer, [0x52, 0x49, 0x46, 0x46]) &&
+      startsWith(buffer, [0x57, 0x45, 0x42, 0x50], 8),
+  },
+  {
+    // "GIF87a" or "GIF89a"
+    contentType: 'image/gif',
+    matches: (buffer) =>
+      startsWith(buffer, [0x47, 0x49, 0x46, 0x38]) &&
+      (buffer[4] === 0x37 || buffer[4] === 0x39) &&
+      buffer[5] === 0x61,
+  },
+  {
+    contentType: 'image/avif',
+    matches: (buffer) =>
+      getBrands(buffer).some((brand) => brand === 'avif' || brand === 'avis'),
+  },
+  {
+    // Checked after AVIF: iPhones write "heic", but "mif1" and "msf1" are
+    // generic HEIF brands AVIF files may use too.
+    contentType: 'image/heic',
+    matches: (buffer) => HEIC_BRANDS.includes(getBrands(buffer)[0]),
+  },
+];
+
+// Browsers and older clients still send the non-standard image/jpg, and
+// HEIC is the HEVC-coded flavour of HEIF.
+const TYPE_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/heif': 'image/heic',
+  'image/heic-sequence': 'image/heic',
+  'image/heif-sequence': 'image/heic',
+};
+
+// What browsers send when they don't know a file's type, e.g. for HEIC
+// on desktop; there is nothing to cross-check then.
+const UNDECLARED_TYPES = ['', 'application/octet-stream'];
+
+const TYPE_NAMES = 'JPEG, PNG, WebP, HEIC, AVIF or GIF';
+
+/** The image format the bytes actually hold, regardless of any file name or header. */
+export function detectImageType(buffer: Buffer): string | undefined {
+  return SIGNATURES.find((signature) => signature.matches(buffer))?.contentType;
+}
+
+// sharp writes no EXIF, XMP, IPTC or ICC data unless asked to, so
+// re-encoding strips it all, GPS position and camera details included.
+async function encode(
+  image: sharp.Sharp,
+  hasAlpha: boolean | undefined
+): Promise<NormalizedImage> {
+  if (hasAlpha) {
+    return {
+      buffer: await image.png().toBuffer(),
+      contentType: 'image/png',
+    };
+  }
+
+  return {
+    buffer: await image.jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer(),
+    contentType: 'image/jpeg',
+  };
+}
+
+/**
+ * Detects an upload's format from its bytes, cross-checks it against the
+ * type the client declared when there is one, refuses oversized images
+ * before decoding them, and converts it so only
+ * freshly encoded pixels leave the server: upright, without metadata, PNG
+ * when it has transparency and JPEG otherwise. HEIC, AVIF and GIF uploads
+ * all end up as one of those two. `label` names the upload in
+ * error messages. Throws InvalidInputError.
+ */
+export async function normalizeUpload(
+  buffer: Buffer,
+  declaredType: string,
+  label = ''
+): Promise<NormalizedImage> {
+  const detectedType = detectImageType(buffer);
+  if (!detectedType) {
+    throw new InvalidInputError(`File${label} is not a ${TYPE_NAMES} image`);
+  }
+
+  const expectedType = TYPE_ALIASES[declaredType] ?? declaredType;
+  if (!UNDECLARED_TYPES.includes(declaredType) && detectedType !== expectedType) {
+    throw new InvalidInputError(
+      `File${label} is declared as ${declaredType} but contains ${detectedType}`
+    );
+  }
+
+  // Reading the header doesn't decode pixels, so it is safe before the
+  // size check; decoding is capped by limitInputPixels as well.
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    throw new InvalidInputError(`File${label} could not be read as an image`);
+  }
+
+  const { width = 0, height = 0 } = metadata;
+  if (width * height > MAX_INPUT_PIXELS) {
+    throw new InvalidInputError(
+      `Image${label} is too large (${width}x${height}). Maximum: ${MAX_INPUT_PIXELS / 1000 / 1000} megapixels`
+    );
+  }
+
+  // sharp's own HEIF support only covers AV1, so HEVC photos are decoded
+  // separately and handed over as raw pixels. libheif applies the photo's
+  // rotation while decoding.
+  let image: sharp.Sharp;
+  if (detectedType === 'image/heic') {
+    try {
+      const decoded = await decodeHeic({ buffer });
+      const { data } = decoded;
+      image = sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+        raw: { width: decoded.width, height: decoded.height, channels: 4 },
+      });
+    } catch {
+      throw new InvalidInputError(
+        `HEIC file${label} could not be decoded; it may be damaged or use an unsupported HEIF feature. Try exporting it as JPEG`
+      );
+    }
+  } else {
+    // Phones store photos sideways and tag them with an EXIF orientation,
+    // which is about to be stripped, so turn the pixels upright first.
+    // Only the first frame of an animated GIF is read.
+    image = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).rotate();
+  }
+
+  try {
+    return await encode(image, metadata.hasAlpha);
+  } catch {
+    throw new InvalidInputError(`File${label} is damaged and could not be decoded`);
+  }
+}
+
+/**
+ * Scales a normalized upload down so its longest edge is at most
+ * `maxSize`, the size the model works at; smaller images are returned
+ * as they are.
+ */
+export async function resizeForModel(
+  image: NormalizedImage,
+  maxSize: number
+): Promise<NormalizedImage> {
+  const { width = 0, height = 0, hasAlpha } = await sharp(image.buffer).metadata();
+  if (width <= maxSize && height <= maxSize) {
+    return image;
+  }
+
+  return encode(
+    sharp(image.buffer).resize(maxSize, maxSize, { fit: 'inside' }),
+    hasAlpha
+  );
+}
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InMemoryJobStore } from '@/lib/job-store';
+
+const event = (stage: 'generating' | 'done' | 'cancelled') => ({
+  stage,
+  message: stage,
+  progress: 50,
+  timestamp: new Date().toISOString(),
+});
+
+describe('InMemoryJobStore', () => {
+  it('keeps a cancelled job cancelled when a late progress write lands', async () => {
+    const store = new InMemoryJobStore();
+    const { id } = await store.create();
+
+    await store.update(id, { status: 'cancelled', errorCode: 'CANCELLED' });
+    await store.appendEvent(id, event('cancelled'));
+    await store.update(id, { status: 'generating' });
+    const job = await store.appendEvent(id, event('generating'));
+
+    assert.equal(job?.status, 'cancelled');
+    assert.deepEqual(
+      job?.events.map(({ stage }) => stage),
+      ['queued', 'cancelled']
+    );
+  });
+
+  it('does not cancel a job that has already finished', async () => {
+    const store = new InMemoryJobStore();
+    const { id } = await store.create();
+
+    await store.update(id, { status: 'done' });
+    await store.appendEvent(id, event('done'));
+    const job = await store.update(id, { status: 'cancelled', errorCode: 'CANCELLED' });
+
+    assert.equal(job?.status, 'done');
+    assert.equal(job?.errorCode, undefined);
+  });
+
+  it('still stores results on a finished job', async () => {
+    const store = new InMemoryJobStore();
+    const { id } = await store.create();
+
+    await store.update(id, { status: 'done' });
+    const job = await store.update(id, { result: { image: 'data:image/png;base64,' } });
+
+    assert.equal(job?.result?.image, 'data:image/png;base64,');
+  });
+});
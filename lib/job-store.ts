@@ -0,0 +1,137 @@
+import { randomUUID } from 'crypto';
+import type { JobEvent, JobStatus, PersonalizationJob } from '@/types';
+
+export type JobUpdate = Partial<
+  Omit<PersonalizationJob, 'id' | 'createdAt' | 'events'>
+>;
+
+const TERMINAL_STATUSES: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+export function isTerminalJobStatus(status: JobStatus): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+/**
+ * Persistence for personalization jobs. The in-memory store only works
+ * while every request lands on the same server process; swap in a shared
+ * store (Redis, Postgres, ...) with setJobStore for multi-instance deploys.
+ *
+ * Finished jobs stay finished: `update` ignores an update that would move
+ * a done, failed or cancelled job to another status, and `appendEvent`
+ * adds nothing after a done, failed or cancelled event, so a late
+ * progress write can't revive a job. Both return the job as stored.
+ */
+export interface JobStore {
+  create(): Promise<PersonalizationJob>;
+  get(id: string): Promise<PersonalizationJob | undefined>;
+  update(id: string, update: JobUpdate): Promise<PersonalizationJob | undefined>;
+  appendEvent(id: string, event: JobEvent): Promise<PersonalizationJob | undefined>;
+}
+
+const JOB_TTL_MS = 60 * 60 * 1000;
+
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, PersonalizationJob>();
+
+  async create(): Promise<PersonalizationJob> {
+    this.evictExpired();
+
+    const now = new Date().toISOString();
+    const job: PersonalizationJob = {
+      id: randomUUID(),
+      status: 'queued',
+      progress: 0,
+      events: [
+        { stage: 'queued', message: 'Queued', progress: 0, timestamp: now },
+      ],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    return this.snapshot(job);
+  }
+
+  async get(id: string): Promise<PersonalizationJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? this.snapshot(job) : undefined;
+  }
+
+  async update(
+    id: string,
+    update: JobUpdate
+  ): Promise<PersonalizationJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    if (
+      isTerminalJobStatus(job.status) &&
+      update.status !== undefined &&
+      update.status !== job.status
+    ) {
+      return this.snapshot(job);
+    }
+
+    const updated: PersonalizationJob = {
+      ...job,
+      ...update,
+      updatedAt: new Date().toISOString(),
+    };
+
+    this.jobs.set(id, updated);
+    return this.snapshot(updated);
+  }
+
+  async appendEvent(
+    id: string,
+    event: JobEvent
+  ): Promise<PersonalizationJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    const lastStage = job.events[job.events.length - 1]?.stage;
+    if (TERMINAL_STATUSES.some((status) => status === lastStage)) {
+      return this.snapshot(job);
+    }
+
+    const updated: PersonalizationJob = {
+      ...job,
+      progress: event.progress,
+      events: [...job.events, event],
+      updatedAt: event.timestamp,
+    };
+
+    this.jobs.set(id, updated);
+    return this.snapshot(updated);
+  }
+
+  private snapshot(job: PersonalizationJob): PersonalizationJob {
+    return { ...job, events: [...job.events] };
+  }
+
+  private evictExpired() {
+    const cutoff = Date.now() - JOB_TTL_MS;
+
+    this.jobs.forEach((job, id) => {
+      if (Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
+
+// Kept on globalThis so the store survives module reloads in `next dev`.
+const globalForJobs = globalThis as unknown as { jobStore?: JobStore };
+
+export function getJobStore(): JobStore {
+  if (!globalForJobs.jobStore) {
+    globalForJobs.jobStore = new InMemoryJobStore();
+  }
+  return globalForJobs.jobStore;
+}
+
+export function setJobStore(store: JobStore) {
+  globalForJobs.jobStore = store;
+}
@@ -0,0 +1,90 @@
+import sharp from 'sharp';
+import { CancelledError, toPersonalizationError } from '@/lib/errors';
+import type {
+  ImagePersonalizer,
+  PersonalizationOptions,
+  PersonalizationResult,
+} from '@/lib/ai-service';
+
+const DEFAULT_SIZE = 1024;
+
+const POSTERIZE_LEVELS = 6;
+
+// Unsharp-style kernel: keeps the flat colour fields from the median pass
+// but darkens the boundaries between them so they read as ink lines.
+const EDGE_ENHANCE_KERNEL = [-1, -1, -1, -1, 9, -1, -1, -1, -1];
+
+/**
+ * Offline stand-in for AIService. Instead of calling Replicate it
+ * "cartoonizes" the upload locally with sharp, so the whole pipeline can
+ * run without a network or API token. The same input always produces
+ * byte-identical output.
+ */
+export class LocalAIService implements ImagePersonalizer {
+  async personalizeImage(
+    options: PersonalizationOptions
+  ): Promise<PersonalizationResult> {
+    try {
+      const width = options.width || DEFAULT_SIZE;
+      const height = options.height || DEFAULT_SIZE;
+
+      if (options.signal?.aborted) {
+        throw new CancelledError();
+      }
+
+      console.log('Cartoonizing image locally (AI_PROVIDER=local)...');
+
+      const { data, info } = await sharp(options.imageBuffer)
+        .rotate()
+        .resize(width, height, {
+          fit: 'cover',
+          position: 'center',
+        })
+        .removeAlpha()
+        .median(5)
+        .modulate({ saturation: 1.8 })
+        .convolve({ width: 3, height: 3, kernel: EDGE_ENHANCE_KERNEL })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const step = 255 / (POSTERIZE_LEVELS - 1);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.round(Math.round(data[i] / step) * step);
+      }
+
+      const cartoon = await sharp(data, {
+        raw: {
+          width: info.width,
+          height: info.height,
+          channels: info.channels,
+        },
+      })
+        .png()
+        .toBuffer();
+
+      if (options.signal?.aborted) {
+        throw new CancelledError();
+      }
+
+      return {
+        imageUrl: `data:image/png;base64,${cartoon.toString('base64')}`,
+        model: 'local',
+        seed: options.seed,
+        params: { width, height, posterize_levels: POSTERIZE_LEVELS },
+      };
+    } catch (error) {
+      console.error('Local AI Service Error:', error);
+
+      const failure = toPersonalizationError(error);
+      return {
+        imageUrl: '',
+        error: failure.message,
+        errorCode: failure.code,
+      };
+    }
+  }
+
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,153 @@
+import type { AIModelConfig } from '@/types';
+
+export interface GenerationInput {
+  imageDataUri: string;
+  prompt: string;
+  negativePrompt: string;
+  width: number;
+  height: number;
+  strength?: number;
+  seed: number;
+  /** Ask for the model's built-in upscaler, where it has one. */
+  upscale?: boolean;
+}
+
+export interface ModelProvider {
+  name: string;
+  config: AIModelConfig;
+  /** Longest edge, in pixels, the model works at; uploads are downscaled to it. */
+  inputSize: number;
+  buildInput(input: GenerationInput): Record<string, unknown>;
+  normalizeOutput(output: unknown): string[];
+}
+
+export const DEFAULT_MODEL_PROVIDER = 'face-to-sticker';
+
+// Replicate models take the seed as a signed 32-bit integer.
+export const MAX_SEED = 2 ** 31 - 1;
+
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED);
+}
+
+function toUrlList(output: unknown): string[] {
+  const items = Array.isArray(output) ? output : [output];
+
+  return items
+    .map((item) => (item == null ? '' : String(item)))
+    .filter((url) => url.length > 0);
+}
+
+const faceToSticker: ModelProvider = {
+  name: 'face-to-sticker',
+  config: {
+    modelId: 'fofr/face-to-sticker',
+    version: '764d4827ea159608a07cdde8ddf1c6000019627515eb02b6b449695fd547e5ef',
+    defaultParams: {
+      steps: 20,
+      upscale: false,
+      upscale_steps: 10,
+      prompt_strength: 4.5,
+      ip_adapter_noise: 0.5,
+      ip_adapter_weight: 0.2,
+      instant_id_strength: 0.7,
+    },
+  },
+  inputSize: 1024,
+  buildInput(input) {
+    return {
+      ...this.config.defaultParams,
+      image: input.imageDataUri,
+      prompt: input.prompt,
+      negative_prompt: input.negativePrompt,
+      width: input.width,
+      height: input.height,
+      seed: input.seed,
+      ...(input.strength !== undefined && {
+        instant_id_strength: input.strength,
+      }),
+      ...(input.upscale && { upscale: true }),
+    };
+  },
+  normalizeOutput: toUrlList,
+};
+
+// PhotoMaker only binds the identity when the prompt contains its trigger
+// word, and it has no size inputs of its own.
+const photomaker: ModelProvider = {
+  name: 'photomaker',
+  config: {
+    modelId: 'tencentarc/photomaker',
+    version: 'ddfc2b08d209f9fa8c1eca692712918bd449f695dabb4a958da31802a9570fe4',
+    defaultParams: {
+      num_steps: 30,
+      num_outputs: 1,
+      guidance_scale: 5,
+      style_strength_ratio: 20,
+    },
+  },
+  inputSize: 1024,
+  buildInput(input) {
+    const prompt = /\bimg\b/.test(input.prompt)
+      ? input.prompt
+      : `a child img, ${input.prompt}`;
+
+    return {
+      ...this.config.defaultParams,
+      input_image: input.imageDataUri,
+      prompt,
+      negative_prompt: input.negativePrompt,
+      seed: input.seed,
+      ...(input.strength !== undefined && {
+        style_strength_ratio: Math.round(15 + input.strength * 35),
+      }),
+    };
+  },
+  normalizeOutput: toUrlList,
+};
+
+const sdxlCartoon: ModelProvider = {
+  name: 'sdxl-cartoon',
+  config: {
+    modelId: 'stability-ai/sdxl',
+    version: '39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b',
+    defaultParams: {
+      num_outputs: 1,
+      num_inference_steps: 30,
+      guidance_scale: 7.5,
+      prompt_strength: 0.8,
+      refine: 'expert_ensemble_refiner',
+      apply_watermark: false,
+    },
+  },
+  inputSize: 1024,
+  buildInput(input) {
+    return {
+      ...this.config.defaultParams,
+      image: input.imageDataUri,
+      prompt: input.prompt,
+      negative_prompt: input.negativePrompt,
+      width: input.width,
+      height: input.height,
+      seed: input.seed,
+      ...(input.strength !== undefined && {
+        prompt_strength: input.strength,
+      }),
+    };
+  },
+  normalizeOutput: toUrlList,
+};
+
+const MODEL_PROVIDERS: Record<string, ModelProvider> = {
+  [faceToSticker.name]: faceToSticker,
+  [photomaker.name]: photomaker,
+  [sdxlCartoon.name]: sdxlCartoon,
+};
+
+export function getModelProvider(name?: string): ModelProvider | undefined {
+  return MODEL_PROVIDERS[name || DEFAULT_MODEL_PROVIDER];
+}
+
+export function getAvailableModelProviders(): string[] {
+  return Object.keys(MODEL_PROVIDERS);
+}
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InvalidInputError } from '@/lib/errors';
+import {
+  getExtensionForContentType,
+  isOutputFormat,
+  isPrintFormat,
+  parseOutputOptions,
+} from '@/lib/output-format';
+
+describe('output formats', () => {
+  it('tells screen formats from print formats', () => {
+    assert.equal(isOutputFormat('webp'), true);
+    assert.equal(isOutputFormat('pdf'), false);
+    assert.equal(isPrintFormat('tiff'), true);
+    assert.equal(isPrintFormat('png'), false);
+    assert.equal(isOutputFormat('toString'), false);
+  });
+
+  it('maps content types to download extensions', () => {
+    assert.equal(getExtensionForContentType('image/jpeg'), 'jpg');
+    assert.equal(getExtensionForContentType('application/pdf'), 'pdf');
+    assert.equal(getExtensionForContentType('image/tiff'), 'tif');
+    assert.equal(getExtensionForContentType('image/bmp'), undefined);
+  });
+});
+
+describe('parseOutputOptions', () => {
+  it('accepts a format with optional quality and width', () => {
+    assert.deepEqual(parseOutputOptions({ format: 'png', quality: null, width: null }), {
+      format: 'png',
+      quality: undefined,
+      width: undefined,
+    });
+    assert.deepEqual(parseOutputOptions({ format: 'jpeg', quality: '75', width: '1024' }), {
+      format: 'jpeg',
+      quality: 75,
+      width: 1024,
+    });
+  });
+
+  it('rejects unknown formats and lists the allowed ones', () => {
+    assert.throws(
+      () => parseOutputOptions({ format: 'bmp', quality: null, width: null }),
+      (error: unknown) =>
+        error instanceof InvalidInputError && /png, jpeg, webp, avif, pdf, tiff/.test(error.message)
+    );
+  });
+
+  it('rejects quality outside 1-100 or not an integer', () => {
+    ['0', '101', '80.5', 'high'].forEach((quality) => {
+      assert.throws(
+        () => parseOutputOptions({ format: 'webp', quality, width: null }),
+        InvalidInputError,
+        quality
+      );
+    });
+    assert.equal(parseOutputOptions({ format: 'webp', quality: '1', width: null }).quality, 1);
+    assert.equal(parseOutputOptions({ format: 'webp', quality: '100', width: null }).quality, 100);
+  });
+
+  it('rejects widths outside the allowed range', () => {
+    ['63', '4097', '512.5', 'wide'].forEach((width) => {
+      assert.throws(
+        () => parseOutputOptions({ format: 'avif', quality: null, width }),
+        /Invalid width. Must be an integer between 64 and 4096/,
+        width
+      );
+    });
+    assert.equal(parseOutputOptions({ format: 'avif', quality: null, width: '64' }).width, 64);
+    assert.equal(parseOutputOptions({ format: 'avif', quality: null, width: '4096' }).width, 4096);
+  });
+});
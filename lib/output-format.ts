@@ -0,0 +1,91 @@
+import { InvalidInputError } from '@/lib/errors';
+import type { OutputFormat, OutputOptions, PrintFormat } from '@/types';
+
+export interface OutputFormatInfo {
+  contentType: string;
+  extension: string;
+  /** Quality used when the request doesn't set one; PNG is lossless. */
+  defaultQuality?: number;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  png: { contentType: 'image/png', extension: 'png' },
+  jpeg: { contentType: 'image/jpeg', extension: 'jpg', defaultQuality: 90 },
+  webp: { contentType: 'image/webp', extension: 'webp', defaultQuality: 85 },
+  avif: { contentType: 'image/avif', extension: 'avif', defaultQuality: 60 },
+};
+
+// Print files are for the printer, not the browser: 300 DPI with bleed.
+export const PRINT_FORMATS: Record<PrintFormat, OutputFormatInfo> = {
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+  tiff: { contentType: 'image/tiff', extension: 'tif' },
+};
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'png';
+
+export const MIN_OUTPUT_WIDTH = 64;
+export const MAX_OUTPUT_WIDTH = 4096;
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return Object.prototype.hasOwnProperty.call(OUTPUT_FORMATS, value);
+}
+
+export function getOutputFormats(): OutputFormat[] {
+  return Object.keys(OUTPUT_FORMATS) as OutputFormat[];
+}
+
+export function isPrintFormat(value: string): value is PrintFormat {
+  return Object.prototype.hasOwnProperty.call(PRINT_FORMATS, value);
+}
+
+export function getPrintFormats(): PrintFormat[] {
+  return Object.keys(PRINT_FORMATS) as PrintFormat[];
+}
+
+/** File extension for an output or print content type, e.g. "tif" for image/tiff. */
+export function getExtensionForContentType(contentType: string): string | undefined {
+  return [...Object.values(OUTPUT_FORMATS), ...Object.values(PRINT_FORMATS)].find(
+    (info) => info.contentType === contentType
+  )?.extension;
+}
+
+/**
+ * Validates the raw format, quality and width form values of a non-print
+ * request. Throws InvalidInputError naming the allowed values.
+ */
+export function parseOutputOptions(values: {
+  format: string;
+  quality: string | null;
+  width: string | null;
+}): OutputOptions {
+  const { format } = values;
+  if (!isOutputFormat(format)) {
+    throw new InvalidInputError(
+      `Invalid format. Allowed formats: ${[...getOutputFormats(), ...getPrintFormats()].join(', ')}`
+    );
+  }
+
+  const quality = values.quality ? Number(values.quality) : undefined;
+  if (
+    quality !== undefined &&
+    (!Number.isInteger(quality) || quality < 1 || quality > 100)
+  ) {
+    throw new InvalidInputError(
+      'Invalid quality. Must be an integer between 1 and 100'
+    );
+  }
+
+  const width = values.width ? Number(values.width) : undefined;
+  if (
+    width !== undefined &&
+    (!Number.isInteger(width) ||
+      width < MIN_OUTPUT_WIDTH ||
+      width > MAX_OUTPUT_WIDTH)
+  ) {
+    throw new InvalidInputError(
+      `Invalid width. Must be an integer between ${MIN_OUTPUT_WIDTH} and ${MAX_OUTPUT_WIDTH}`
+    );
+  }
+
+  return { format, quality, width };
+}
@@ -0,0 +1,451 @@
+import type {
+  ImagePersonalizer,
+  PersonalizationResult,
+} from '@/lib/ai-service';
+import {
+  createImageCompositor,
+  type CompositeOptions,
+  type CompositeStage,
+  type ImageCompositor,
+} from '@/lib/image-compositor';
+import {
+  CancelledError,
+  InvalidInputError,
+  PersonalizationError,
+  toPersonalizationError,
+} from '@/lib/errors';
+import { resizeForModel, type NormalizedImage } from '@/lib/image-upload';
+import { getJobStore, isTerminalJobStatus } from '@/lib/job-store';
+import {
+  DEFAULT_MODEL_PROVIDER,
+  MAX_SEED,
+  createRandomSeed,
+  getModelProvider,
+} from '@/lib/model-providers';
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  OUTPUT_FORMATS,
+  PRINT_FORMATS,
+} from '@/lib/output-format';
+import { buildPrompt, type PromptVariables } from '@/lib/prompt-builder';
+import { getStylePreset } from '@/lib/style-presets';
+import type {
+  GeneratedVariation,
+  JobStage,
+  JobStatus,
+  OutputOptions,
+  PersonalizationJob,
+  PrintOptions,
+} from '@/types';
+
+export interface PersonalizationJobInput {
+  /** Normalized uploads keyed by template slot name. */
+  images: Record<string, NormalizedImage>;
+  templateName: string;
+  model?: string;
+  style?: string;
+  seed?: number;
+  variations?: number;
+  promptVariables?: PromptVariables;
+  /** Sanitized values for the template's text placeholders. */
+  textFields?: Record<string, string>;
+  output?: OutputOptions;
+  /** Produce a print file; also asks the model to upscale its output. */
+  print?: PrintOptions;
+}
+
+// Rough share of the total run each stage accounts for. Generation
+// dominates, so it spans most of the bar and advances with the model logs.
+const GENERATION_START_PROGRESS = 5;
+const GENERATION_END_PROGRESS = 80;
+
+const COMPOSITE_STAGES: Record<
+  CompositeStage,
+  { message: string; progress: number }
+> = {
+  downloading: { message: 'Downloading generated image...', progress: 85 },
+  compositing: { message: 'Step 2: Compositing onto template...', progress: 90 },
+  encoding: { message: 'Encoding final image...', progress: 95 },
+};
+
+// Enough to tell candidates apart, a fraction of a full render's size.
+const PREVIEW_OUTPUT: OutputOptions = { format: 'webp', quality: 75, width: 512 };
+
+const STAGE_STATUS: Partial<Record<JobStage, JobStatus>> = {
+  generating: 'generating',
+  downloading: 'compositing',
+  compositing: 'compositing',
+  encoding: 'compositing',
+  done: 'done',
+  failed: 'failed',
+  cancelled: 'cancelled',
+};
+
+// Abort handles for jobs running in this process, kept on globalThis so
+// they survive module reloads in `next dev`.
+const globalForJobs = globalThis as unknown as {
+  jobControllers?: Map<string, AbortController>;
+};
+const jobControllers =
+  globalForJobs.jobControllers ??
+  (globalForJobs.jobControllers = new Map<string, AbortController>());
+
+/**
+ * Marks a job cancelled and aborts its in-flight work, including the
+ * Replicate prediction. Returns the updated job, the unchanged job if it
+ * had already finished, or undefined if there is no such job.
+ */
+export async function cancelPersonalizationJob(
+  jobId: string
+): Promise<PersonalizationJob | undefined> {
+  const jobStore = getJobStore();
+  const job = await jobStore.get(jobId);
+
+  if (!job || isTerminalJobStatus(job.status)) {
+    return job;
+  }
+
+  console.log(`[job ${jobId}] Cancelling`);
+
+  // Abort first so the job stops queueing progress writes; the store
+  // ignores any already queued once the job is cancelled.
+  jobControllers.get(jobId)?.abort();
+
+  await jobStore.update(jobId, {
+    status: 'cancelled',
+    errorCode: 'CANCELLED',
+    error: 'Cancelled by the client',
+  });
+  return jobStore.appendEvent(jobId, {
+    stage: 'cancelled',
+    message: 'Cancelled',
+    progress: job.progress,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+async function compositeImage(
+  compositor: ImageCompositor,
+  options: CompositeOptions
+): Promise<string> {
+  const compositeResult = await compositor.compositeOnTemplate(options);
+
+  if (compositeResult.error || !compositeResult.base64Image) {
+    throw new PersonalizationError(
+      compositeResult.error || 'Failed to composite image'
+    );
+  }
+  return compositeResult.base64Image;
+}
+
+/**
+ * Renders a finished job's variation in the job's requested output or
+ * print format; the job itself only renders the first one. The image is
+ * stored on the job so it is rendered once. Returns undefined if there is
+ * no such job or variation. Throws PersonalizationError.
+ */
+export async function renderJobVariation(
+  jobId: string,
+  index: number
+): Promise<GeneratedVariation | undefined> {
+  const jobStore = getJobStore();
+  const job = await jobStore.get(jobId);
+  const variation = job?.result?.variations?.[index];
+
+  if (!job?.result?.metadata || !variation) {
+    return undefined;
+  }
+  if (variation.image) {
+    return variation;
+  }
+
+  const { metadata } = job.result;
+  console.log(`[job ${jobId}] Rendering variation ${index + 1}`);
+
+  const rendered: GeneratedVariation = {
+    ...variation,
+    image: await compositeImage(createImageCompositor(), {
+      faces: variation.faces,
+      text: metadata.text,
+      templateName: metadata.template,
+      output: metadata.output,
+      print: metadata.print,
+    }),
+  };
+
+  // Re-read so a variation rendered meanwhile isn't dropped.
+  const latest = (await jobStore.get(jobId))?.result;
+  if (latest?.variations) {
+    const variations = [...latest.variations];
+    variations[index] = rendered;
+    await jobStore.update(jobId, { result: { ...latest, variations } });
+  }
+
+  return rendered;
+}
+
+export async function runPersonalizationJob(
+  jobId: string,
+  aiService: ImagePersonalizer,
+  input: PersonalizationJobInput
+): Promise<void> {
+  const jobStore = getJobStore();
+  const controller = new AbortController();
+  const { signal } = controller;
+  let lastProgress = 0;
+
+  // Events are fire-and-forget from synchronous callbacks, so chain the
+  // writes to keep them in order.
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+  const report = (
+    stage: JobStage,
+    message: string,
+    progress: number = lastProgress,
+    logs?: string
+  ) => {
+    if (signal.aborted) {
+      return pendingWrite;
+    }
+
+    console.log(`[job ${jobId}] ${message}`);
+    lastProgress = progress;
+
+    const status = STAGE_STATUS[stage];
+    pendingWrite = pendingWrite
+      .then(async () => {
+        if (status) {
+          await jobStore.update(jobId, { status });
+        }
+        await jobStore.appendEvent(jobId, {
+          stage,
+          message,
+          progress,
+          timestamp: new Date().toISOString(),
+          logs,
+        });
+      })
+      .catch((error) => {
+        console.error(`[job ${jobId}] Failed to record progress:`, error);
+      });
+    return pendingWrite;
+  };
+
+  const queued = await jobStore.get(jobId);
+  if (!queued || queued.status === 'cancelled') {
+    return;
+  }
+
+  jobControllers.set(jobId, controller);
+
+  try {
+    const compositor = createImageCompositor();
+
+    report(
+      'generating',
+      'Step 1: Generating personalized illustration with AI...',
+      GENERATION_START_PROGRESS
+    );
+
+    const template = await compositor.getTemplateConfig(input.templateName);
+    const model = input.model || template?.model || DEFAULT_MODEL_PROVIDER;
+    const style = getStylePreset(input.style || template?.defaultStyle);
+    if (!style) {
+      throw new InvalidInputError(`Unknown style ${input.style}`);
+    }
+
+    const provider = getModelProvider(model);
+    if (!provider) {
+      throw new InvalidInputError(`Unknown model ${model}`);
+    }
+
+    const { prompt, negativePrompt } = buildPrompt(style, input.promptVariables);
+
+    const variationCount = input.variations || 1;
+    const baseSeed = input.seed ?? createRandomSeed();
+    const slotNames = Object.keys(input.images);
+
+    const images: Record<string, NormalizedImage> = {};
+    for (const slotName of slotNames) {
+      images[slotName] = await resizeForModel(
+        input.images[slotName],
+        provider.inputSize
+      );
+    }
+
+    // One prediction per variation and uploaded slot, all in parallel.
+    // Variations are seeded baseSeed, baseSeed + 1, ... so every candidate
+    // can be reproduced on its own.
+    const predictions = Array.from({ length: variationCount }, (_, variation) =>
+      slotNames.map((slotName) => ({
+        variation,
+        slotName,
+        seed: (baseSeed + variation) % (MAX_SEED + 1),
+      }))
+    ).flat();
+    const predictionPercents: number[] = new Array(predictions.length).fill(0);
+
+    const aiResults = await Promise.all(
+      predictions.map(({ slotName, seed }, index) =>
+        aiService.personalizeImage({
+          imageBuffer: images[slotName].buffer,
+          imageContentType: images[slotName].contentType,
+          prompt,
+          negativePrompt,
+          strength: style.strength,
+          upscale: Boolean(input.print),
+          modelParams: style.modelParams?.[model],
+          seed,
+          model,
+          signal,
+          onProgress: ({ logs, percent }) => {
+            if (percent !== undefined) {
+              predictionPercents[index] = percent;
+            }
+            const averagePercent =
+              predictionPercents.reduce((sum, value) => sum + value, 0) /
+              predictions.length;
+            const progress =
+              GENERATION_START_PROGRESS +
+              ((GENERATION_END_PROGRESS - GENERATION_START_PROGRESS) *
+                averagePercent) /
+                100;
+
+            report('generating', 'Generating...', Math.round(progress), logs);
+          },
+        })
+      )
+    );
+
+    // A variation is usable only if every one of its slots generated.
+    const generated: {
+      faces: Record<string, string>;
+      primary: PersonalizationResult;
+    }[] = [];
+    for (let variation = 0; variation < variationCount; variation++) {
+      const results = aiResults.filter(
+        (_, index) => predictions[index].variation === variation
+      );
+      if (results.some((result) => result.error || !result.imageUrl)) {
+        continue;
+      }
+
+      const faces: Record<string, string> = {};
+      results.forEach((result, index) => {
+        faces[slotNames[index]] = result.imageUrl;
+      });
+      generated.push({ faces, primary: results[0] });
+    }
+
+    if (generated.length === 0) {
+      const firstFailure =
+        aiResults.find((result) => result.error) ?? aiResults[0];
+      throw new PersonalizationError(
+        firstFailure.error || 'Failed to generate personalized image',
+        firstFailure.errorCode
+      );
+    }
+
+    if (generated.length < variationCount) {
+      console.warn(
+        `[job ${jobId}] ${variationCount - generated.length} of ${variationCount} variations failed`
+      );
+    }
+
+    const text = {
+      ...input.textFields,
+      childName: input.promptVariables?.childName,
+    };
+
+    // Only the first variation is rendered in the requested format up
+    // front; with several, each also gets a small preview to pick from,
+    // and renderJobVariation renders the others on demand.
+    const variations: GeneratedVariation[] = [];
+    let image = '';
+    for (const [index, { faces, primary }] of Array.from(generated.entries())) {
+      const label =
+        generated.length > 1 ? ` (${index + 1} of ${generated.length})` : '';
+      const onStage = (stage: CompositeStage) => {
+        const { message, progress } = COMPOSITE_STAGES[stage];
+        report(stage, `${message}${label}`, progress);
+      };
+
+      const variation: GeneratedVariation = { seed: primary.seed, faces };
+      if (index === 0) {
+        image = await compositeImage(compositor, {
+          faces,
+          text,
+          templateName: input.templateName,
+          output: input.output,
+          print: input.print,
+          signal,
+          onStage,
+        });
+        variation.image = image;
+      }
+      if (generated.length > 1) {
+        variation.preview = await compositeImage(compositor, {
+          faces,
+          text,
+          templateName: input.templateName,
+          output: PREVIEW_OUTPUT,
+          signal,
+          onStage,
+        });
+      }
+      variations.push(variation);
+    }
+
+    if (signal.aborted) {
+      throw new CancelledError();
+    }
+
+    const [{ primary }] = generated;
+    const outputFormat = input.output?.format ?? DEFAULT_OUTPUT_FORMAT;
+    const format = input.print?.format ?? outputFormat;
+    const { contentType } = input.print
+      ? PRINT_FORMATS[input.print.format]
+      : OUTPUT_FORMATS[outputFormat];
+
+    await pendingWrite;
+    await jobStore.update(jobId, {
+      result: {
+        image,
+        format,
+        contentType,
+        model: primary.model,
+        variations,
+        metadata: {
+          model: primary.model || model,
+          style: style.id,
+          prompt,
+          negativePrompt,
+          seed: primary.seed,
+          params: primary.params,
+          output: input.output,
+          print: input.print,
+          template: input.templateName,
+          text,
+        },
+      },
+    });
+    await report('done', 'Personalization completed successfully', 100);
+  } catch (error) {
+    if (signal.aborted) {
+      // cancelPersonalizationJob has already recorded the outcome.
+      return;
+    }
+
+    console.error(`[job ${jobId}] Personalization failed:`, error);
+
+    const failure = toPersonalizationError(error);
+
+    await pendingWrite;
+    await jobStore.update(jobId, {
+      error: failure.message,
+      errorCode: failure.code,
+    });
+    await report('failed', failure.message);
+  } finally {
+    jobControllers.delete(jobId);
+  }
+}
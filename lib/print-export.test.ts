@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import sharp from 'sharp';
+import { exportForPrint, mmToPixels } from '@/lib/print-export';
+
+const size = { trimWidth: 50, trimHeight: 40 };
+
+function artwork() {
+  return sharp({
+    create: { width: 200, height: 160, channels: 3, background: '#3366cc' },
+  });
+}
+
+function points(mm: number): number {
+  return (mm / 25.4) * 72;
+}
+
+function readBox(pdf: string, name: string): number[] {
+  const match = pdf.match(new RegExp(`/${name} \\[([^\\]]+)\\]`));
+  assert.ok(match, `${name} is missing`);
+  return match[1].split(' ').map(Number);
+}
+
+function assertBox(actual: number[], expected: number[]) {
+  assert.equal(actual.length, 4);
+  actual.forEach((value, index) => {
+    assert.ok(
+      Math.abs(value - expected[index]) < 0.001,
+      `${actual.join(' ')} != ${expected.map((v) => v.toFixed(3)).join(' ')}`
+    );
+  });
+}
+
+describe('exportForPrint PDF', () => {
+  it('sets the media, bleed and trim boxes without crop marks', async () => {
+    const pdf = (
+      await exportForPrint(artwork(), size, { format: 'pdf', bleed: 3, cropMarks: false }, 'Card')
+    ).toString('latin1');
+
+    const width = points(56);
+    const height = points(46);
+    assert.ok(pdf.startsWith('%PDF-1.4'));
+    assertBox(readBox(pdf, 'MediaBox'), [0, 0, width, height]);
+    assertBox(readBox(pdf, 'BleedBox'), [0, 0, width, height]);
+    const trim = points(3);
+    assertBox(readBox(pdf, 'TrimBox'), [trim, trim, width - trim, height - trim]);
+    assert.match(pdf, /\/Title \(Card\)/);
+  });
+
+  it('adds a slug for crop marks outside the bleed box', async () => {
+    const pdf = (
+      await exportForPrint(artwork(), size, { format: 'pdf', bleed: 3, cropMarks: true }, 'Card')
+    ).toString('latin1');
+
+    // 3 mm gap from the trim (all bleed), 5 mm marks, 1 mm margin.
+    const slug = points(6);
+    const width = points(50 + 2 * 9);
+    const height = points(40 + 2 * 9);
+    assertBox(readBox(pdf, 'MediaBox'), [0, 0, width, height]);
+    assertBox(readBox(pdf, 'BleedBox'), [slug, slug, width - slug, height - slug]);
+    const trim = points(9);
+    assertBox(readBox(pdf, 'TrimBox'), [trim, trim, width - trim, height - trim]);
+  });
+
+  it('embeds the artwork at 300 DPI including the bleed', async () => {
+    const pdf = (
+      await exportForPrint(artwork(), size, { format: 'pdf', bleed: 2, cropMarks: true }, 'Card')
+    ).toString('latin1');
+
+    assert.match(pdf, new RegExp(`/Width ${mmToPixels(50) + 2 * mmToPixels(2)} `));
+    assert.match(pdf, new RegExp(`/Height ${mmToPixels(40) + 2 * mmToPixels(2)} `));
+  });
+});
+
+describe('exportForPrint TIFF', () => {
+  it('is tagged 300 DPI and sized to the trim plus bleed', async () => {
+    const tiff = await exportForPrint(
+      artwork(),
+      size,
+      { format: 'tiff', bleed: 3, cropMarks: false },
+      'Card'
+    );
+    const metadata = await sharp(tiff).metadata();
+
+    assert.equal(metadata.format, 'tiff');
+    assert.equal(metadata.density, 300);
+    assert.equal(metadata.resolutionUnit, 'inch');
+    assert.equal(metadata.hasAlpha, false);
+    assert.equal(metadata.width, mmToPixels(50) + 2 * mmToPixels(3));
+    assert.equal(metadata.height, mmToPixels(40) + 2 * mmToPixels(3));
+  });
+
+  it('mirrors the art into the bleed and puts crop marks on a white slug', async () => {
+    const tiff = await exportForPrint(
+      artwork(),
+      size,
+      { format: 'tiff', bleed: 3, cropMarks: true },
+      'Card'
+    );
+    const { data, info } = await sharp(tiff).raw().toBuffer({ resolveWithObject: true });
+    const pixel = (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels;
+      return Array.from(data.subarray(offset, offset + info.channels));
+    };
+    const slug = mmToPixels(6);
+
+    assert.equal(info.width, mmToPixels(50) + 2 * mmToPixels(3) + 2 * slug);
+    assert.deepEqual(pixel(0, 0), [255, 255, 255]);
+    // Just inside the bleed edge the art has been mirrored out.
+    assert.deepEqual(pixel(slug + 1, slug + 1), [0x33, 0x66, 0xcc]);
+    // A crop mark continues the left trim line through the top slug.
+    const trimLeft = slug + mmToPixels(3);
+    const markColumn = [-1, 0, 1].map((dx) => pixel(trimLeft + dx, mmToPixels(2))[0]);
+    assert.ok(Math.min(...markColumn) < 128, `no crop mark near x=${trimLeft}`);
+  });
+});
@@ -0,0 +1,286 @@
+import crypto from 'crypto';
+import zlib from 'zlib';
+import sharp from 'sharp';
+import { renderPipeline } from '@/lib/sharp-pipeline';
+import type { PrintFormat } from '@/types';
+
+export const PRINT_DPI = 300;
+export const DEFAULT_BLEED_MM = 3;
+export const MAX_BLEED_MM = 10;
+
+// Crop marks start outside the bleed, and at least this far from the trim,
+// so they never show on the page. The white slug around the bleed is just
+// big enough to hold them.
+const CROP_MARK_GAP_MM = 3;
+const CROP_MARK_LENGTH_MM = 5;
+const CROP_MARK_STROKE_PT = 0.25;
+const SLUG_MARGIN_MM = 1;
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+
+export interface PrintSize {
+  /** Trim width in millimetres. */
+  trimWidth: number;
+  /** Trim height in millimetres. */
+  trimHeight: number;
+}
+
+export interface PrintExportOptions {
+  format: PrintFormat;
+  /** Bleed in millimetres on every side. */
+  bleed: number;
+  cropMarks: boolean;
+}
+
+// All in millimetres.
+interface PrintLayout {
+  trim: { width: number; height: number };
+  bleed: number;
+  slug: number;
+  markGap: number;
+  sheet: { width: number; height: number };
+}
+
+// Crop mark segments in millimetres from the sheet's top-left corner.
+type Segment = [number, number, number, number];
+
+export function mmToPixels(mm: number): number {
+  return Math.round((mm / MM_PER_INCH) * PRINT_DPI);
+}
+
+function mmToPoints(mm: number): number {
+  return (mm / MM_PER_INCH) * POINTS_PER_INCH;
+}
+
+/** Factor that takes artwork at `outputWidth` pixels to the trim at 300 DPI. */
+export function getPrintScale(size: PrintSize, outputWidth: number): number {
+  return mmToPixels(size.trimWidth) / outputWidth;
+}
+
+function getPrintLayout(size: PrintSize, options: PrintExportOptions): PrintLayout {
+  const markGap = Math.max(options.bleed, CROP_MARK_GAP_MM);
+  const slug = options.cropMarks
+    ? markGap - options.bleed + CROP_MARK_LENGTH_MM + SLUG_MARGIN_MM
+    : 0;
+  const margin = options.bleed + slug;
+
+  return {
+    trim: { width: size.trimWidth, height: size.trimHeight },
+    bleed: options.bleed,
+    slug,
+    markGap,
+    sheet: {
+      width: size.trimWidth + margin * 2,
+      height: size.trimHeight + margin * 2,
+    },
+  };
+}
+
+// Two marks per corner, continuing the trim lines out into the slug.
+function getCropMarks(layout: PrintLayout): Segment[] {
+  const offset = layout.bleed + layout.slug;
+  const left = offset;
+  const top = offset;
+  const right = offset + layout.trim.width;
+  const bottom = offset + layout.trim.height;
+  const start = offset - layout.markGap;
+  const end = start - CROP_MARK_LENGTH_MM;
+  const farRight = layout.sheet.width - start;
+  const farBottom = layout.sheet.height - start;
+
+  return [
+    [start, top, end, top],
+    [left, start, left, end],
+    [farRight, top, farRight + CROP_MARK_LENGTH_MM, top],
+    [right, start, right, end],
+    [start, bottom, end, bottom],
+    [left, farBottom, left, farBottom + CROP_MARK_LENGTH_MM],
+    [farRight, bottom, farRight + CROP_MARK_LENGTH_MM, bottom],
+    [right, farBottom, right, farBottom + CROP_MARK_LENGTH_MM],
+  ];
+}
+
+function renderCropMarks(layout: PrintLayout, width: number, height: number): Buffer {
+  const stroke = (CROP_MARK_STROKE_PT / POINTS_PER_INCH) * PRINT_DPI;
+  const lines = getCropMarks(layout)
+    .map(
+      ([x1, y1, x2, y2]) =>
+        `<line x1="${(x1 / MM_PER_INCH) * PRINT_DPI}" y1="${(y1 / MM_PER_INCH) * PRINT_DPI}" x2="${(x2 / MM_PER_INCH) * PRINT_DPI}" y2="${(y2 / MM_PER_INCH) * PRINT_DPI}"/>`
+    )
+    .join('');
+
+  return Buffer.from(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><g stroke="#000000" stroke-width="${stroke}">${lines}</g></svg>`
+  );
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+function pdfBox(left: number, bottom: number, right: number, top: number): string {
+  return `[${[left, bottom, right, top].map((value) => value.toFixed(3)).join(' ')}]`;
+}
+
+/**
+ * A single-page PDF laid out the way PDF/X expects: the artwork (with
+ * bleed) as a lossless image, TrimBox and BleedBox set, and crop marks as
+ * vector strokes. There is no output intent, so it is RGB and not a
+ * certified PDF/X file.
+ */
+function buildPdf(
+  pixels: { data: Buffer; width: number; height: number },
+  layout: PrintLayout,
+  title: string
+): Buffer {
+  const sheetWidth = mmToPoints(layout.sheet.width);
+  const sheetHeight = mmToPoints(layout.sheet.height);
+  const slug = mmToPoints(layout.slug);
+  const bleedBox = pdfBox(slug, slug, sheetWidth - slug, sheetHeight - slug);
+  const margin = mmToPoints(layout.slug + layout.bleed);
+  const trimBox = pdfBox(margin, margin, sheetWidth - margin, sheetHeight - margin);
+
+  const artWidth = sheetWidth - slug * 2;
+  const artHeight = sheetHeight - slug * 2;
+  // PDF's y axis points up.
+  const marks = layout.slug
+    ? getCropMarks(layout)
+        .map(
+          ([x1, y1, x2, y2]) =>
+            `${mmToPoints(x1).toFixed(3)} ${(sheetHeight - mmToPoints(y1)).toFixed(3)} m ${mmToPoints(x2).toFixed(3)} ${(sheetHeight - mmToPoints(y2)).toFixed(3)} l S`
+        )
+        .join('\n')
+    : '';
+  const content = Buffer.from(
+    [
+      `q ${artWidth.toFixed(3)} 0 0 ${artHeight.toFixed(3)} ${slug.toFixed(3)} ${slug.toFixed(3)} cm /Im0 Do Q`,
+      marks && `q ${CROP_MARK_STROKE_PT} w 0 G\n${marks}\nQ`,
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+  const image = zlib.deflateSync(pixels.data);
+  const now = pdfDate(new Date());
+
+  const objects: (string | Buffer)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox ${pdfBox(0, 0, sheetWidth, sheetHeight)} /BleedBox ${bleedBox} /TrimBox ${trimBox} /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`,
+    ],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${pixels.width} /Height ${pixels.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.length} >>\nstream\n`,
+      image,
+      '\nendstream',
+    ],
+    [`<< /Length ${content.length} >>\nstream\n`, content, '\nendstream'],
+    [
+      `<< /Title (${title.replace(/[^\x20-\x7e]/g, '').replace(/[\\()]/g, '\\$&')}) /Producer (Pickabook) /CreationDate (${now}) /ModDate (${now}) /Trapped /False >>`,
+    ],
+  ];
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((parts, index) => {
+    offsets.push(length);
+    [`${index + 1} 0 obj\n`, ...parts, '\nendobj\n'].forEach((part) => {
+      const chunk = typeof part === 'string' ? Buffer.from(part, 'latin1') : part;
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+  });
+
+  const id = crypto.randomBytes(16).toString('hex');
+  chunks.push(
+    Buffer.from(
+      [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R /ID [<${id}> <${id}>] >>`,
+        'startxref',
+        String(length),
+        '%%EOF',
+        '',
+      ].join('\n'),
+      'latin1'
+    )
+  );
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Turns a composite rendered at trim size into a print file: the art is
+ * mirrored outwards to fill the bleed, optional crop marks go in a white
+ * slug around it, and the file is tagged 300 DPI.
+ */
+export async function exportForPrint(
+  image: sharp.Sharp,
+  size: PrintSize,
+  options: PrintExportOptions,
+  title: string
+): Promise<Buffer> {
+  const layout = getPrintLayout(size, options);
+  const trimWidth = mmToPixels(size.trimWidth);
+  const trimHeight = mmToPixels(size.trimHeight);
+  const bleed = mmToPixels(options.bleed);
+
+  const composite = await renderPipeline(image.flatten({ background: '#ffffff' }));
+  const { data, info } = await composite
+    .resize(trimWidth, trimHeight, { fit: 'fill' })
+    .extend({
+      top: bleed,
+      bottom: bleed,
+      left: bleed,
+      right: bleed,
+      extendWith: 'mirror',
+    })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  if (options.format === 'pdf') {
+    return buildPdf({ data, width: info.width, height: info.height }, layout, title);
+  }
+
+  let sheet = sharp(data, {
+    raw: { width: info.width, height: info.height, channels: info.channels },
+  });
+
+  if (layout.slug) {
+    const slug = mmToPixels(layout.slug);
+    const extended = await renderPipeline(
+      sheet.extend({
+        top: slug,
+        bottom: slug,
+        left: slug,
+        right: slug,
+        background: '#ffffff',
+      })
+    );
+
+    sheet = extended.composite([
+      {
+        input: renderCropMarks(layout, info.width + slug * 2, info.height + slug * 2),
+        top: 0,
+        left: 0,
+      },
+    ]);
+  }
+
+  const pixelsPerMm = PRINT_DPI / MM_PER_INCH;
+  return sheet
+    .removeAlpha()
+    .tiff({
+      compression: 'lzw',
+      xres: pixelsPerMm,
+      yres: pixelsPerMm,
+      resolutionUnit: 'inch',
+    })
+    .toBuffer();
+}
@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { InvalidInputError } from '@/lib/errors';
+import { sanitizePromptVariables } from '@/lib/prompt-builder';
+
+describe('sanitizePromptVariables childName', () => {
+  it('accepts names in any script', () => {
+    ['Zoë', 'José', 'Ана', '李明', 'آدم', 'Ngọc Anh', "O'Brien", 'Anne-Marie', 'D’Angelo'].forEach(
+      (name) => {
+        assert.equal(sanitizePromptVariables({ childName: name }).childName, name);
+      }
+    );
+  });
+
+  it('normalizes combining accents to their precomposed form', () => {
+    const { childName } = sanitizePromptVariables({ childName: 'Zoe\u0308' });
+    assert.equal(childName, 'Zo\u00eb');
+  });
+
+  it('rejects digits, symbols and a leading separator', () => {
+    ['R2D2', 'Sam!', '-Ana', 'Ana@home'].forEach((name) => {
+      assert.throws(() => sanitizePromptVariables({ childName: name }), InvalidInputError);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { InvalidInputError } from '@/lib/errors';
+import type { StylePreset } from '@/lib/style-presets';
+
+export interface PromptVariables {
+  childName?: string;
+  theme?: string;
+  userPrompt?: string;
+}
+
+export interface BuiltPrompt {
+  prompt: string;
+  negativePrompt: string;
+}
+
+// Server-side template; user input only ever fills the placeholders, and
+// never reaches the negative prompt.
+const PROMPT_TEMPLATE = '{{style}}, {{subject}} {{theme}}, {{userPrompt}}';
+
+const DEFAULT_SUBJECT = 'a happy child';
+
+const MAX_LENGTHS: Record<keyof PromptVariables, number> = {
+  childName: 40,
+  theme: 80,
+  userPrompt: 200,
+};
+
+// Letters and combining marks in any script, so "Zoë", "Ана", "李明" and
+// "آدم" all pass, plus spaces, hyphens and straight or curly apostrophes.
+const CHILD_NAME_PATTERN = /^[\p{L}\p{M}][\p{L}\p{M}'’ -]*$/u;
+
+// Characters diffusion front-ends treat as syntax: attention weights
+// "(word:1.4)", alternation "[a|b]", embeddings "<lora:x>", CLI flags.
+const PROMPT_SYNTAX_PATTERN = /[()[\]{}<>:|\\#=*_~^`"]|--/g;
+
+const BLOCKED_TERMS = [
+  // adult content
+  'nsfw', 'nude', 'nudity', 'naked', 'topless', 'undressed', 'sexy', 'sexual',
+  'sex', 'erotic', 'lingerie', 'bikini', 'underwear', 'seductive', 'porn',
+  'fetish', 'explicit', 'provocative',
+  // violence and horror
+  'blood', 'bloody', 'gore', 'gory', 'kill', 'killing', 'dead', 'corpse',
+  'murder', 'gun', 'weapon', 'knife', 'violence', 'violent', 'horror',
+  'creepy', 'demon', 'zombie',
+  // substances
+  'drugs', 'alcohol', 'beer', 'cigarette', 'smoking',
+  // attempts to steer the model around the template
+  'negative prompt', 'ignore previous', 'ignore the above', 'no clothes',
+  'without clothes', 'realistic photo of',
+];
+
+const BLOCKED_PATTERN = new RegExp(
+  `\\b(${BLOCKED_TERMS.map((term) => term.replace(/ /g, '\\s+')).join('|')})\\b`,
+  'i'
+);
+
+export function containsBlockedTerms(text: string): boolean {
+  return BLOCKED_PATTERN.test(text);
+}
+
+function sanitizeText(
+  field: keyof PromptVariables,
+  value: string | null | undefined
+): string | undefined {
+  const text = (value || '')
+    .replace(PROMPT_SYNTAX_PATTERN, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!text) {
+    return undefined;
+  }
+
+  if (text.length > MAX_LENGTHS[field]) {
+    throw new InvalidInputError(
+      `${field} is too long. Maximum length: ${MAX_LENGTHS[field]} characters`
+    );
+  }
+
+  if (containsBlockedTerms(text)) {
+    throw new InvalidInputError(`${field} contains content that is not allowed`);
+  }
+
+  return text;
+}
+
+/**
+ * Normalizes user-supplied prompt variables and rejects anything too long,
+ * unsafe, or trying to smuggle in prompt syntax. Throws InvalidInputError.
+ */
+export function sanitizePromptVariables(variables: {
+  childName?: string | null;
+  theme?: string | null;
+  userPrompt?: string | null;
+}): PromptVariables {
+  // NFC, so a name typed with combining accents matches its precomposed
+  // spelling and renders the same.
+  const childName = sanitizeText(
+    'childName',
+    variables.childName?.normalize('NFC')
+  );
+
+  if (childName && !CHILD_NAME_PATTERN.test(childName)) {
+    throw new InvalidInputError(
+      'childName may only contain letters, spaces, hyphens and apostrophes'
+    );
+  }
+
+  return {
+    childName,
+    theme: sanitizeText('theme', variables.theme),
+    userPrompt: sanitizeText('userPrompt', variables.userPrompt),
+  };
+}
+
+export function buildPrompt(
+  style: StylePreset,
+  variables: PromptVariables = {}
+): BuiltPrompt {
+  const values: Record<string, string> = {
+    style: style.prompt,
+    subject: variables.childName
+      ? `a happy child named ${variables.childName}`
+      : DEFAULT_SUBJECT,
+    theme: variables.theme || '',
+    userPrompt: variables.userPrompt || '',
+  };
+
+  const prompt = PROMPT_TEMPLATE.replace(
+    /\{\{(\w+)\}\}/g,
+    (_, name: string) => values[name] || ''
+  )
+    .replace(/\s+,/g, ',')
+    .replace(/,(\s*,)+/g, ',')
+    .replace(/[\s,]+$/, '')
+    .replace(/\s+/g, ' ');
+
+  return {
+    prompt,
+    negativePrompt: style.negativePrompt,
+  };
+}
@@ -0,0 +1,296 @@
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import { readPositiveNumberEnv } from '@/lib/env';
+import {
+  CancelledError,
+  PersonalizationError,
+  TimeoutError,
+} from '@/lib/errors';
+
+// Replicate serves prediction outputs from replicate.delivery and its
+// subdomains.
+const DEFAULT_ALLOWED_HOSTS = ['replicate.delivery'];
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 3;
+
+const ALLOWED_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Loopback, private, link-local, CGNAT, documentation, multicast and other
+// special-purpose ranges. IPv4-mapped IPv6 addresses are checked against
+// the IPv4 rules too; NAT64 and 6to4 addresses, which can embed any IPv4
+// address, are refused outright.
+const BLOCKED_ADDRESSES = new net.BlockList();
+(
+  [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.0.2.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['198.51.100.0', 24],
+    ['203.0.113.0', 24],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+  ] as const
+).forEach(([address, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4')
+);
+(
+  [
+    ['::', 128],
+    ['::1', 128],
+    ['64:ff9b::', 96],
+    ['100::', 64],
+    ['2001:db8::', 32],
+    ['2002::', 16],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const
+).forEach(([address, prefix]) =>
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6')
+);
+
+export interface RemoteImageOptions {
+  /** Hostnames (and their subdomains) images may be fetched from. */
+  allowedHosts?: string[];
+  maxBytes?: number;
+  /** Deadline for the whole download, redirects included. */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function readAllowedHosts(): string[] {
+  const hosts = process.env.REMOTE_IMAGE_HOSTS?.split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return hosts?.length ? hosts : DEFAULT_ALLOWED_HOSTS;
+}
+
+function assertAllowedUrl(url: URL, allowedHosts: string[]) {
+  if (url.protocol !== 'https:') {
+    throw new PersonalizationError(
+      `Refusing to download image over ${url.protocol.replace(':', '')}; only https is allowed`
+    );
+  }
+
+  if (url.username || url.password || url.port) {
+    throw new PersonalizationError(
+      `Refusing to download image from ${url.host}: credentials and custom ports are not allowed`
+    );
+  }
+
+  const host = url.hostname.toLowerCase();
+
+  // Node connects to IP literals without a DNS lookup, so check them here.
+  const literal = host.replace(/^\[|\]$/g, '');
+  if (net.isIP(literal) && isBlockedAddress(literal)) {
+    throw new PersonalizationError(
+      `Refusing to download image from ${host}: it is a private or reserved address`
+    );
+  }
+
+  const allowed = allowedHosts.some(
+    (allowedHost) => host === allowedHost || host.endsWith(`.${allowedHost}`)
+  );
+  if (!allowed) {
+    throw new PersonalizationError(
+      `Refusing to download image from ${host}: not an allowed image host`
+    );
+  }
+}
+
+// Checked when the socket connects rather than beforehand, so a DNS answer
+// that changes between the check and the request can't slip through.
+// Node asks for every address when it races IPv4 and IPv6, else for one.
+function safeLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | dns.LookupAddress[],
+    family?: number
+  ) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (
+      addresses.length === 0 ||
+      addresses.some(({ address }) => isBlockedAddress(address))
+    ) {
+      callback(
+        new PersonalizationError(
+          `Refusing to download image from ${hostname}: it resolves to a private or reserved address`
+        ),
+        ''
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+type Fetched = { body: Buffer } | { location: string };
+
+function requestImage(
+  url: URL,
+  maxBytes: number,
+  deadline: number,
+  signal?: AbortSignal
+): Promise<Fetched> {
+  return new Promise((resolve, reject) => {
+    const request = https.get(
+      url,
+      {
+        lookup: safeLookup as net.LookupFunction,
+        headers: { accept: ALLOWED_CONTENT_TYPES.join(', ') },
+        signal,
+      },
+      (response) => {
+        const status = response.statusCode ?? 0;
+
+        if (REDIRECT_STATUSES.includes(status)) {
+          response.resume();
+          const location = response.headers.location;
+          if (!location) {
+            reject(new PersonalizationError(`Image redirect from ${url.host} has no location`));
+            return;
+          }
+          resolve({ location });
+          return;
+        }
+
+        if (status !== 200) {
+          response.resume();
+          reject(
+            new PersonalizationError(
+              `Failed to download image: ${status} ${response.statusMessage ?? ''}`.trim()
+            )
+          );
+          return;
+        }
+
+        const contentType = (response.headers['content-type'] ?? '')
+          .split(';')[0]
+          .trim()
+          .toLowerCase();
+        if (!ALLOWED_CONTENT_TYPES.includes(contentType)) {
+          response.resume();
+          reject(
+            new PersonalizationError(
+              `Downloaded file is not a supported image (content type "${contentType || 'none'}")`
+            )
+          );
+          return;
+        }
+
+        const tooLarge = new PersonalizationError(
+          `Downloaded image is larger than ${maxBytes} bytes`
+        );
+        // Rejected first and destroyed without an error: an error passed to
+        // destroy() once the response has started ends up uncaught.
+        if (Number(response.headers['content-length']) > maxBytes) {
+          reject(tooLarge);
+          request.destroy();
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        response.on('data', (chunk: Buffer) => {
+          received += chunk.length;
+          if (received > maxBytes) {
+            reject(tooLarge);
+            request.destroy();
+            return;
+          }
+          chunks.push(chunk);
+        });
+        response.on('end', () => {
+          if (response.complete) {
+            resolve({ body: Buffer.concat(chunks) });
+          } else {
+            reject(new PersonalizationError('Image download was interrupted'));
+          }
+        });
+        response.on('error', reject);
+      }
+    );
+
+    const timer = setTimeout(
+      () => request.destroy(new TimeoutError('Downloading the generated image timed out.')),
+      Math.max(0, deadline - Date.now())
+    );
+    request.on('close', () => clearTimeout(timer));
+    request.on('error', (error) => {
+      reject(signal?.aborted ? new CancelledError() : error);
+    });
+  });
+}
+
+/**
+ * Downloads an image from an allowed host over https. Private and reserved
+ * addresses are refused, redirects are re-checked hop by hop, and the
+ * response must be a PNG, JPEG or WebP within the size limit and deadline.
+ *
+ * Defaults come from REMOTE_IMAGE_HOSTS (comma-separated),
+ * REMOTE_IMAGE_MAX_BYTES and REMOTE_IMAGE_TIMEOUT_MS.
+ */
+export async function fetchRemoteImage(
+  url: string,
+  options: RemoteImageOptions = {}
+): Promise<Buffer> {
+  const allowedHosts = options.allowedHosts ?? readAllowedHosts();
+  const maxBytes =
+    options.maxBytes ?? readPositiveNumberEnv('REMOTE_IMAGE_MAX_BYTES') ?? DEFAULT_MAX_BYTES;
+  const timeoutMs =
+    options.timeoutMs ?? readPositiveNumberEnv('REMOTE_IMAGE_TIMEOUT_MS') ?? DEFAULT_TIMEOUT_MS;
+  const deadline = Date.now() + timeoutMs;
+
+  let current: URL;
+  try {
+    current = new URL(url);
+  } catch {
+    throw new PersonalizationError('Invalid image URL');
+  }
+
+  for (let redirects = 0; ; redirects++) {
+    assertAllowedUrl(current, allowedHosts);
+
+    const fetched = await requestImage(current, maxBytes, deadline, options.signal);
+    if ('body' in fetched) {
+      return fetched.body;
+    }
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new PersonalizationError('Too many redirects while downloading image');
+    }
+    current = new URL(fetched.location, current);
+  }
+}
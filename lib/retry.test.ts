@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CancelledError, ModelUnavailableError, RateLimitedError } from '@/lib/errors';
+import { withRetry } from '@/lib/retry';
+
+const options = { maxAttempts: 3, baseDelayMs: 10000, maxDelayMs: 10000 };
+
+describe('withRetry', () => {
+  it('stops waiting for the next attempt when aborted', async () => {
+    const controller = new AbortController();
+    let attempts = 0;
+    const started = Date.now();
+
+    const retrying = withRetry(
+      async () => {
+        attempts += 1;
+        throw new ModelUnavailableError();
+      },
+      options,
+      () => setTimeout(() => controller.abort(), 10),
+      controller.signal
+    );
+
+    await assert.rejects(retrying, CancelledError);
+    assert.equal(attempts, 1);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it('caps the delay a Retry-After header asks for', async () => {
+    const delays: number[] = [];
+    const controller = new AbortController();
+
+    const retrying = withRetry(
+      async () => {
+        throw new RateLimitedError(undefined, 24 * 60 * 60 * 1000);
+      },
+      options,
+      (_, __, delayMs) => {
+        delays.push(delayMs);
+        controller.abort();
+      },
+      controller.signal
+    );
+
+    await assert.rejects(retrying, CancelledError);
+    assert.equal(delays[0], 60000);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  CancelledError,
+  RateLimitedError,
+  toPersonalizationError,
+} from '@/lib/errors';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+// A server asking us to come back later than this gets the request again
+// after this long anyway; nobody waits minutes for an illustration.
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Exponential backoff with "equal jitter": half the window is fixed, the
+ * other half random, so concurrent retries spread out without ever
+ * retrying immediately.
+ */
+export function getRetryDelay(attempt: number, options: RetryOptions): number {
+  const window = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(window / 2 + Math.random() * (window / 2));
+}
+
+function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `operation`, retrying transient PersonalizationErrors (rate limits,
+ * timeouts, unavailable models). Anything else is rethrown on first
+ * failure, classified as a PersonalizationError. Aborting `signal` during
+ * a backoff rejects with CancelledError straight away.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  onRetry?: (error: Error, attempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (caught) {
+      const error = toPersonalizationError(caught);
+
+      if (!error.retryable || attempt >= options.maxAttempts) {
+        throw error;
+      }
+
+      let delayMs = getRetryDelay(attempt, options);
+      if (error instanceof RateLimitedError && error.retryAfterMs) {
+        delayMs = Math.max(
+          delayMs,
+          Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS)
+        );
+      }
+
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
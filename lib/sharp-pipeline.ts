@@ -0,0 +1,14 @@
+import sharp from 'sharp';
+
+/**
+ * Renders everything queued on `image` so far and starts a new pipeline
+ * from the resulting pixels. Within one pipeline sharp resizes and extends
+ * before it composites, so a composite that is to be scaled or padded as a
+ * whole has to be rendered first.
+ */
+export async function renderPipeline(image: sharp.Sharp): Promise<sharp.Sharp> {
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  return sharp(data, {
+    raw: { width: info.width, height: info.height, channels: info.channels },
+  });
+}
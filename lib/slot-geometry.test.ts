@@ -0,0 +1,180 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import sharp from 'sharp';
+import type { FaceSlot } from '@/lib/template-manifest';
+import {
+  getSlotBounds,
+  getSlotCorners,
+  isWarpedSlot,
+  warpFaceToSlot,
+} from '@/lib/slot-geometry';
+
+function faceSlot(overrides: Partial<FaceSlot> = {}): FaceSlot {
+  return {
+    name: 'hero',
+    x: 100,
+    y: 50,
+    width: 100,
+    height: 100,
+    optional: false,
+    defaultFace: 'default-face.svg',
+    ...overrides,
+  };
+}
+
+function assertPointsClose(actual: number[][], expected: number[][]) {
+  actual.forEach((point, index) => {
+    point.forEach((value, axis) => {
+      assert.ok(
+        Math.abs(value - expected[index][axis]) < 1e-9,
+        `corner ${index}: [${point}] is not [${expected[index]}]`
+      );
+    });
+  });
+}
+
+// A face with a differently colored quadrant in each corner.
+const QUADRANTS = {
+  topLeft: [255, 0, 0],
+  topRight: [0, 255, 0],
+  bottomRight: [0, 0, 255],
+  bottomLeft: [255, 255, 0],
+};
+
+async function quadrantFace(size: number): Promise<Buffer> {
+  const rgb = Buffer.alloc(size * size * 3);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const right = x >= size / 2;
+      const bottom = y >= size / 2;
+      const color = bottom
+        ? right ? QUADRANTS.bottomRight : QUADRANTS.bottomLeft
+        : right ? QUADRANTS.topRight : QUADRANTS.topLeft;
+      rgb.set(color, (y * size + x) * 3);
+    }
+  }
+  return sharp(rgb, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+}
+
+async function readPixels(png: Buffer) {
+  const { data, info } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+  return {
+    width: info.width,
+    height: info.height,
+    at: (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels;
+      return Array.from(data.subarray(offset, offset + 4));
+    },
+  };
+}
+
+describe('getSlotCorners', () => {
+  it('returns the box corners clockwise from the top left', () => {
+    assert.deepEqual(getSlotCorners(faceSlot()), [
+      [100, 50],
+      [200, 50],
+      [200, 150],
+      [100, 150],
+    ]);
+  });
+
+  it('turns the box clockwise around its centre', () => {
+    assertPointsClose(getSlotCorners(faceSlot({ rotation: 90 })), [
+      [200, 50],
+      [200, 150],
+      [100, 150],
+      [100, 50],
+    ]);
+  });
+
+  it('uses the quad as given', () => {
+    const quad: FaceSlot['quad'] = [
+      [10, 0],
+      [90, 10],
+      [100, 100],
+      [0, 90],
+    ];
+
+    assert.deepEqual(getSlotCorners(faceSlot({ quad })), quad);
+  });
+});
+
+describe('getSlotBounds', () => {
+  it('is the slot box itself without a warp', () => {
+    const slot = faceSlot();
+
+    assert.equal(isWarpedSlot(slot), false);
+    assert.deepEqual(getSlotBounds(slot), { left: 100, top: 50, width: 100, height: 100 });
+  });
+
+  it('covers the turned corners in whole pixels', () => {
+    const slot = faceSlot({ rotation: 45 });
+    const halfDiagonal = 50 * Math.SQRT2;
+
+    assert.equal(isWarpedSlot(slot), true);
+    assert.deepEqual(getSlotBounds(slot), {
+      left: Math.floor(150 - halfDiagonal),
+      top: Math.floor(100 - halfDiagonal),
+      width: Math.ceil(150 + halfDiagonal) - Math.floor(150 - halfDiagonal),
+      height: Math.ceil(100 + halfDiagonal) - Math.floor(100 - halfDiagonal),
+    });
+  });
+});
+
+describe('warpFaceToSlot', () => {
+  let face: Buffer;
+
+  before(async () => {
+    face = await quadrantFace(64);
+  });
+
+  it('turns the face with the slot', async () => {
+    const warped = await readPixels(
+      await warpFaceToSlot(face, faceSlot({ rotation: 90 }))
+    );
+
+    assert.deepEqual([warped.width, warped.height], [100, 100]);
+    // Turned a quarter clockwise, the top-left quadrant is now top right.
+    assert.deepEqual(warped.at(75, 25), [...QUADRANTS.topLeft, 255]);
+    assert.deepEqual(warped.at(75, 75), [...QUADRANTS.topRight, 255]);
+    assert.deepEqual(warped.at(25, 75), [...QUADRANTS.bottomRight, 255]);
+    assert.deepEqual(warped.at(25, 25), [...QUADRANTS.bottomLeft, 255]);
+  });
+
+  it('maps the face onto a perspective quad', async () => {
+    // A trapezoid narrowing towards the bottom, as on a page seen from above.
+    const slot = faceSlot({
+      quad: [
+        [0, 0],
+        [100, 0],
+        [80, 100],
+        [20, 100],
+      ],
+    });
+
+    const warped = await readPixels(await warpFaceToSlot(face, slot));
+
+    assert.deepEqual([warped.width, warped.height], [100, 100]);
+    assert.equal(warped.at(5, 95)[3], 0, 'outside the quad is transparent');
+    assert.equal(warped.at(95, 95)[3], 0, 'outside the quad is transparent');
+    assert.deepEqual(warped.at(25, 10), [...QUADRANTS.topLeft, 255]);
+    assert.deepEqual(warped.at(70, 90), [...QUADRANTS.bottomRight, 255]);
+    // The face's centre lands where the quad's diagonals cross, at
+    // y = 62.5, not halfway down as an affine stretch would put it.
+    assert.deepEqual(warped.at(45, 58), [...QUADRANTS.topLeft, 255]);
+    assert.deepEqual(warped.at(45, 67), [...QUADRANTS.bottomLeft, 255]);
+  });
+
+  it('refuses a quad with no area', async () => {
+    const slot = faceSlot({
+      quad: [
+        [0, 0],
+        [50, 50],
+        [100, 100],
+        [25, 25],
+      ],
+    });
+
+    await assert.rejects(warpFaceToSlot(face, slot), /degenerate/);
+  });
+});
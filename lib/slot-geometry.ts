@@ -0,0 +1,216 @@
+import sharp from 'sharp';
+import type { FaceSlot } from '@/lib/template-manifest';
+
+export type Point = [number, number];
+
+export interface SlotBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Samples per axis for each output pixel; 3x3 keeps warped edges smooth
+// without making large slots slow.
+const SUPERSAMPLE = 3;
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+/**
+ * Where the corners of the slot's face box land on the template, in order
+ * top-left, top-right, bottom-right, bottom-left.
+ */
+export function getSlotCorners(slot: FaceSlot): [Point, Point, Point, Point] {
+  if (slot.quad) {
+    return slot.quad;
+  }
+
+  const { x, y, width, height } = slot;
+  const box: [Point, Point, Point, Point] = [
+    [x, y],
+    [x + width, y],
+    [x + width, y + height],
+    [x, y + height],
+  ];
+
+  if (!slot.rotation) {
+    return box;
+  }
+
+  // Clockwise on screen, since the y axis points down.
+  const radians = (slot.rotation * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+
+  return box.map(([px, py]): Point => {
+    const dx = px - cx;
+    const dy = py - cy;
+    return [cx + dx * cos - dy * sin, cy + dx * sin + dy * cos];
+  }) as [Point, Point, Point, Point];
+}
+
+export function isWarpedSlot(slot: FaceSlot): boolean {
+  return Boolean(slot.quad || slot.rotation);
+}
+
+/** Pixel-aligned box around the slot's corners. */
+export function getSlotBounds(slot: FaceSlot): SlotBounds {
+  const corners = getSlotCorners(slot);
+  const xs = corners.map(([px]) => px);
+  const ys = corners.map(([, py]) => py);
+
+  const left = Math.floor(Math.min(...xs));
+  const top = Math.floor(Math.min(...ys));
+
+  return {
+    left,
+    top,
+    width: Math.ceil(Math.max(...xs)) - left,
+    height: Math.ceil(Math.max(...ys)) - top,
+  };
+}
+
+// Heckbert's closed form for the projective map taking the unit square
+// onto a quad.
+function squareToQuad(quad: [Point, Point, Point, Point]): Matrix3 {
+  const [[x0, y0], [x1, y1], [x2, y2], [x3, y3]] = quad;
+  const sx = x0 - x1 + x2 - x3;
+  const sy = y0 - y1 + y2 - y3;
+
+  if (sx === 0 && sy === 0) {
+    return [x1 - x0, x3 - x0, x0, y1 - y0, y3 - y0, y0, 0, 0, 1];
+  }
+
+  const dx1 = x1 - x2;
+  const dx2 = x3 - x2;
+  const dy1 = y1 - y2;
+  const dy2 = y3 - y2;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = (sx * dy2 - dx2 * sy) / det;
+  const h = (dx1 * sy - sx * dy1) / det;
+
+  return [
+    x1 - x0 + g * x1, x3 - x0 + h * x3, x0,
+    y1 - y0 + g * y1, y3 - y0 + h * y3, y0,
+    g, h, 1,
+  ];
+}
+
+function invert([a, b, c, d, e, f, g, h, i]: Matrix3): Matrix3 {
+  const A = e * i - f * h;
+  const B = f * g - d * i;
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+
+  // A quad with three corners on a line already divides by zero in
+  // squareToQuad, leaving non-finite entries.
+  if (!Number.isFinite(det) || Math.abs(det) < 1e-12) {
+    throw new Error('Slot quad is degenerate');
+  }
+
+  return [
+    A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    C / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+}
+
+/**
+ * Warps a face image onto the slot's rotated box or quad. Returns an RGBA
+ * PNG the size of getSlotBounds(slot), to be composited at its left/top.
+ *
+ * Each output pixel averages a grid of bilinear samples taken in
+ * premultiplied alpha, which anti-aliases the quad's edges and avoids dark
+ * fringes around transparent mask pixels.
+ */
+export async function warpFaceToSlot(
+  face: Buffer,
+  slot: FaceSlot
+): Promise<Buffer> {
+  const { data: src, info } = await sharp(face)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const srcWidth = info.width;
+  const srcHeight = info.height;
+
+  const bounds = getSlotBounds(slot);
+  const corners = getSlotCorners(slot).map(
+    ([px, py]): Point => [px - bounds.left, py - bounds.top]
+  ) as [Point, Point, Point, Point];
+
+  // Output pixel -> unit square, then scale up to source pixels.
+  const [a, b, c, d, e, f, g, h, i] = invert(squareToQuad(corners));
+
+  const premultiplied = new Float32Array(srcWidth * srcHeight * 4);
+  for (let p = 0; p < srcWidth * srcHeight; p++) {
+    const alpha = src[p * 4 + 3] / 255;
+    premultiplied[p * 4] = src[p * 4] * alpha;
+    premultiplied[p * 4 + 1] = src[p * 4 + 1] * alpha;
+    premultiplied[p * 4 + 2] = src[p * 4 + 2] * alpha;
+    premultiplied[p * 4 + 3] = src[p * 4 + 3];
+  }
+
+  const out = Buffer.alloc(bounds.width * bounds.height * 4);
+  const sample = [0, 0, 0, 0];
+  const samplesPerPixel = SUPERSAMPLE * SUPERSAMPLE;
+
+  for (let oy = 0; oy < bounds.height; oy++) {
+    for (let ox = 0; ox < bounds.width; ox++) {
+      sample.fill(0);
+
+      for (let sy = 0; sy < SUPERSAMPLE; sy++) {
+        for (let sx = 0; sx < SUPERSAMPLE; sx++) {
+          const px = ox + (sx + 0.5) / SUPERSAMPLE;
+          const py = oy + (sy + 0.5) / SUPERSAMPLE;
+          const w = g * px + h * py + i;
+          const u = ((a * px + b * py + c) / w) * srcWidth - 0.5;
+          const v = ((d * px + e * py + f) / w) * srcHeight - 0.5;
+
+          if (u < -0.5 || v < -0.5 || u > srcWidth - 0.5 || v > srcHeight - 0.5) {
+            continue;
+          }
+
+          const x0 = Math.max(0, Math.floor(u));
+          const y0 = Math.max(0, Math.floor(v));
+          const x1 = Math.min(srcWidth - 1, x0 + 1);
+          const y1 = Math.min(srcHeight - 1, y0 + 1);
+          const fx = Math.min(1, Math.max(0, u - x0));
+          const fy = Math.min(1, Math.max(0, v - y0));
+
+          for (let ch = 0; ch < 4; ch++) {
+            const top =
+              premultiplied[(y0 * srcWidth + x0) * 4 + ch] * (1 - fx) +
+              premultiplied[(y0 * srcWidth + x1) * 4 + ch] * fx;
+            const bottom =
+              premultiplied[(y1 * srcWidth + x0) * 4 + ch] * (1 - fx) +
+              premultiplied[(y1 * srcWidth + x1) * 4 + ch] * fx;
+            sample[ch] += top * (1 - fy) + bottom * fy;
+          }
+        }
+      }
+
+      const alpha = sample[3] / samplesPerPixel;
+      if (alpha <= 0) {
+        continue;
+      }
+
+      const offset = (oy * bounds.width + ox) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        out[offset + ch] = Math.min(
+          255,
+          Math.round(((sample[ch] / samplesPerPixel) * 255) / alpha)
+        );
+      }
+      out[offset + 3] = Math.round(alpha);
+    }
+  }
+
+  return sharp(out, {
+    raw: { width: bounds.width, height: bounds.height, channels: 4 },
+  })
+    .png()
+    .toBuffer();
+}
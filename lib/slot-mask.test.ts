@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import sharp from 'sharp';
+import { applySlotMask } from '@/lib/slot-mask';
+
+const SIZE = 40;
+
+async function readPixels(png: Buffer) {
+  const { data, info } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+  assert.equal(info.channels, 4);
+  return (x: number, y: number) => {
+    const offset = (y * SIZE + x) * 4;
+    return Array.from(data.subarray(offset, offset + 4));
+  };
+}
+
+describe('applySlotMask', () => {
+  it('cuts an opaque face to the mask shape', async () => {
+    const face = await sharp({
+      create: { width: SIZE, height: SIZE, channels: 3, background: '#f00' },
+    })
+      .png()
+      .toBuffer();
+
+    const pixel = await readPixels(
+      await applySlotMask(face, { shape: 'ellipse', feather: 0 }, SIZE, SIZE)
+    );
+
+    assert.deepEqual(pixel(20, 20), [255, 0, 0, 255]);
+    assert.equal(pixel(0, 0)[3], 0);
+  });
+
+  it('keeps the transparency a face already has', async () => {
+    // Left half transparent black, as around a sticker; right half red.
+    const rgba = Buffer.alloc(SIZE * SIZE * 4);
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = SIZE / 2; x < SIZE; x++) {
+        rgba.set([255, 0, 0, 255], (y * SIZE + x) * 4);
+      }
+    }
+    const face = await sharp(rgba, { raw: { width: SIZE, height: SIZE, channels: 4 } })
+      .png()
+      .toBuffer();
+
+    const pixel = await readPixels(
+      await applySlotMask(face, { shape: 'rect', feather: 8 }, SIZE, SIZE)
+    );
+
+    assert.equal(pixel(10, 20)[3], 0);
+    assert.deepEqual(pixel(30, 20).slice(0, 3), [255, 0, 0]);
+    assert.ok(pixel(30, 20)[3] > 200);
+  });
+});
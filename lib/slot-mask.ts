@@ -0,0 +1,94 @@
+import sharp from 'sharp';
+import { getTemplateAssetPath, type SlotMask } from '@/lib/template-manifest';
+
+// A Gaussian with this sigma fades from ~opaque to ~transparent over about
+// one feather width.
+const FEATHER_TO_SIGMA = 0.5;
+
+function buildShapeSvg(mask: SlotMask, width: number, height: number): string {
+  // Inset the shape by half the feather so the blurred edge stays inside
+  // the slot instead of being clipped to a hard line at its border.
+  const inset = mask.feather / 2;
+  const innerWidth = width - inset * 2;
+  const innerHeight = height - inset * 2;
+
+  let shape: string;
+  switch (mask.shape) {
+    case 'ellipse':
+      shape = `<ellipse cx="${width / 2}" cy="${height / 2}" rx="${innerWidth / 2}" ry="${innerHeight / 2}" fill="#fff"/>`;
+      break;
+    case 'rounded': {
+      const radius = Math.min(mask.radius, innerWidth / 2, innerHeight / 2);
+      shape = `<rect x="${inset}" y="${inset}" width="${innerWidth}" height="${innerHeight}" rx="${radius}" ry="${radius}" fill="#fff"/>`;
+      break;
+    }
+    default:
+      shape = `<rect x="${inset}" y="${inset}" width="${innerWidth}" height="${innerHeight}" fill="#fff"/>`;
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="#000"/>${shape}</svg>`;
+}
+
+async function loadMaskImage(file: string, width: number, height: number) {
+  const image = sharp(getTemplateAssetPath(file));
+  const { hasAlpha } = await image.metadata();
+
+  const resized = image.resize(width, height, { fit: 'fill' });
+  return hasAlpha
+    ? resized.extractChannel('alpha')
+    : resized.greyscale().extractChannel(0);
+}
+
+/**
+ * Renders a slot's mask as raw single-channel pixels (one byte per pixel,
+ * row-major) where 255 keeps the face and 0 shows the template through.
+ */
+export async function renderSlotMask(
+  mask: SlotMask,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  const shape =
+    mask.shape === 'image'
+      ? await loadMaskImage(mask.image, width, height)
+      : sharp(Buffer.from(buildShapeSvg(mask, width, height))).extractChannel(0);
+
+  const alpha = await shape.raw().toBuffer();
+  if (mask.feather === 0) {
+    return alpha;
+  }
+
+  // Blurring widens the image back to sRGB, hence the second extract.
+  return sharp(alpha, { raw: { width, height, channels: 1 } })
+    .blur(Math.max(0.3, mask.feather * FEATHER_TO_SIGMA))
+    .extractChannel(0)
+    .raw()
+    .toBuffer();
+}
+
+/**
+ * Multiplies the slot mask into the face's alpha channel so it blends into
+ * the template with soft edges. Transparent parts of the face, such as
+ * around a sticker, stay transparent.
+ */
+export async function applySlotMask(
+  face: Buffer,
+  mask: SlotMask,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  const alpha = await renderSlotMask(mask, width, height);
+  const maskLayer = await sharp({
+    create: { width, height, channels: 3, background: '#fff' },
+  })
+    .joinChannel(alpha, { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+
+  return sharp(face)
+    .resize(width, height, { fit: 'cover', position: 'center' })
+    .ensureAlpha()
+    .composite([{ input: maskLayer, blend: 'dest-in' }])
+    .png()
+    .toBuffer();
+}
@@ -0,0 +1,106 @@
+export interface StylePreset {
+  id: string;
+  name: string;
+  description: string;
+  thumbnail: string;
+  prompt: string;
+  negativePrompt: string;
+  strength?: number;
+  modelParams?: Record<string, Record<string, unknown>>;
+}
+
+export const DEFAULT_STYLE_PRESET = 'classic-cartoon';
+
+// Every preset builds on this so no style can drop the child-safety terms.
+export const BASE_NEGATIVE_PROMPT =
+  'ugly, blurry, poor quality, deformed, disfigured, nsfw, nudity, violence, gore, scary, horror';
+
+const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'classic-cartoon',
+    name: 'Classic Cartoon',
+    description: 'Bright, friendly picture-book cartoon',
+    thumbnail: '/styles/classic-cartoon.svg',
+    prompt:
+      'cute cartoon style, colorful, friendly, childrens book illustration',
+    negativePrompt: BASE_NEGATIVE_PROMPT,
+    strength: 0.7,
+    modelParams: {
+      'face-to-sticker': { prompt_strength: 4.5, ip_adapter_weight: 0.2 },
+    },
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor',
+    description: 'Soft pastel washes on textured paper',
+    thumbnail: '/styles/watercolor.svg',
+    prompt:
+      'soft watercolor painting, gentle pastel washes, visible paper texture, childrens book illustration',
+    negativePrompt: `${BASE_NEGATIVE_PROMPT}, photo, 3d render, harsh outlines`,
+    strength: 0.6,
+    modelParams: {
+      'face-to-sticker': { prompt_strength: 5, ip_adapter_weight: 0.3 },
+    },
+  },
+  {
+    id: 'anime',
+    name: 'Anime',
+    description: 'Cel-shaded with big expressive eyes',
+    thumbnail: '/styles/anime.svg',
+    prompt:
+      'anime style, cel shaded, big expressive eyes, vibrant colors, whimsical storybook scene',
+    negativePrompt: `${BASE_NEGATIVE_PROMPT}, photo, realistic`,
+    strength: 0.65,
+    modelParams: {
+      'face-to-sticker': { prompt_strength: 5.5, ip_adapter_weight: 0.25 },
+    },
+  },
+  {
+    id: 'pixel-art',
+    name: 'Pixel Art',
+    description: 'Retro 16-bit video game sprite',
+    thumbnail: '/styles/pixel-art.svg',
+    prompt:
+      '16-bit pixel art, retro video game sprite, limited color palette, crisp pixels',
+    negativePrompt: `${BASE_NEGATIVE_PROMPT}, smooth gradients, photo, realistic`,
+    strength: 0.5,
+    modelParams: {
+      'face-to-sticker': { prompt_strength: 6, ip_adapter_weight: 0.15 },
+    },
+  },
+  {
+    id: 'claymation',
+    name: 'Claymation',
+    description: 'Handmade plasticine, stop-motion look',
+    thumbnail: '/styles/claymation.svg',
+    prompt:
+      'claymation, plasticine figure, stop motion animation, handmade clay texture, soft studio lighting',
+    negativePrompt: `${BASE_NEGATIVE_PROMPT}, flat, 2d drawing`,
+    strength: 0.7,
+    modelParams: {
+      'face-to-sticker': { prompt_strength: 5, ip_adapter_weight: 0.3 },
+    },
+  },
+  {
+    id: 'pencil-sketch',
+    name: 'Pencil Sketch',
+    description: 'Graphite lines and cross-hatching',
+    thumbnail: '/styles/pencil-sketch.svg',
+    prompt:
+      'pencil sketch, graphite drawing, cross hatching, sketchbook page, childrens book illustration',
+    negativePrompt: `${BASE_NEGATIVE_PROMPT}, color, saturated, photo`,
+    strength: 0.75,
+    modelParams: {
+      'face-to-sticker': { prompt_strength: 4, ip_adapter_weight: 0.2 },
+    },
+  },
+];
+
+export function getStylePreset(id?: string): StylePreset | undefined {
+  const presetId = id || DEFAULT_STYLE_PRESET;
+  return STYLE_PRESETS.find((preset) => preset.id === presetId);
+}
+
+export function getStylePresets(): StylePreset[] {
+  return STYLE_PRESETS;
+}
@@ -0,0 +1,522 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { z } from 'zod';
+import { getModelProvider } from '@/lib/model-providers';
+import { DEFAULT_BLEED_MM, MAX_BLEED_MM } from '@/lib/print-export';
+import { getSlotCorners } from '@/lib/slot-geometry';
+import { getStylePreset } from '@/lib/style-presets';
+
+const NAME_PATTERN = /^[a-z0-9_-]+$/i;
+const NAME_MESSAGE = 'must contain only letters, digits, "-" and "_"';
+
+const feather = z.number().nonnegative().default(0);
+
+/**
+ * Alpha mask the generated face is blended through. `feather` is the width
+ * in pixels of the soft edge, which fades out inside the slot bounds.
+ */
+const slotMaskSchema = z.discriminatedUnion('shape', [
+  z.object({ shape: z.literal('rect'), feather }).strict(),
+  z.object({ shape: z.literal('ellipse'), feather }).strict(),
+  z
+    .object({
+      shape: z.literal('rounded'),
+      radius: z.number().nonnegative(),
+      feather,
+    })
+    .strict(),
+  // Grayscale (white = face) or alpha PNG, relative to the templates
+  // directory and stretched to the slot size.
+  z.object({ shape: z.literal('image'), image: z.string().min(1), feather }).strict(),
+]);
+
+export const DEFAULT_FACE_IMAGE = 'default-face.svg';
+
+export const TEXT_FIELD_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Text drawn on the template. `text` fills `{{field}}` placeholders from
+ * the request (e.g. "{{childName}}'s Big Day"); x/y is the baseline anchor
+ * that `align` refers to. Text shrinks from `fontSize` towards
+ * `minFontSize` to fit `maxWidth`, measured along the curve for `arc`.
+ */
+const textSlotSchema = z
+  .object({
+    name: z.string().regex(NAME_PATTERN, NAME_MESSAGE),
+    text: z
+      .string()
+      .min(1)
+      .refine(
+        (text) => text.match(TEXT_FIELD_PATTERN) !== null,
+        'must contain at least one {{field}} placeholder'
+      ),
+    x: z.number(),
+    y: z.number(),
+    maxWidth: z.number().positive(),
+    fontFamily: z
+      .string()
+      .regex(/^[\w\s,'-]+$/, 'must be a plain font family list')
+      .default('sans-serif'),
+    fontSize: z.number().positive().default(64),
+    minFontSize: z.number().positive().default(16),
+    fontWeight: z.enum(['normal', 'bold']).default('normal'),
+    color: z
+      .string()
+      .regex(/^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i, 'must be a hex color')
+      .default('#000000'),
+    align: z.enum(['left', 'center', 'right']).default('center'),
+    // Bends the baseline around a circle; "up" bows like a rainbow.
+    arc: z
+      .object({
+        radius: z.number().positive(),
+        direction: z.enum(['up', 'down']).default('up'),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .refine((slot) => slot.minFontSize <= slot.fontSize, {
+    message: 'minFontSize must not exceed fontSize',
+    path: ['minFontSize'],
+  });
+
+const pointSchema = z.tuple([z.number(), z.number()]);
+
+/**
+ * The x/y/width/height box is the face as generated (and masked). It can be
+ * turned by `rotation` degrees clockwise around its centre, or mapped onto
+ * `quad` (top-left, top-right, bottom-right, bottom-left) for perspective.
+ */
+const faceSlotSchema = z
+  .object({
+    name: z.string().regex(NAME_PATTERN, NAME_MESSAGE),
+    x: z.number().int().nonnegative(),
+    y: z.number().int().nonnegative(),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    rotation: z.number().gt(-360).lt(360).optional(),
+    quad: z.tuple([pointSchema, pointSchema, pointSchema, pointSchema]).optional(),
+    mask: slotMaskSchema.optional(),
+    // Optional slots may be left without a photo; they then show
+    // `defaultFace`, an illustrated face relative to the templates directory.
+    optional: z.boolean().default(false),
+    defaultFace: z.string().min(1).default(DEFAULT_FACE_IMAGE),
+  })
+  .strict()
+  .refine((slot) => slot.rotation === undefined || slot.quad === undefined, {
+    message: 'use either rotation or quad, not both',
+  });
+
+/**
+ * One entry in a template's paint order, bottom to top, drawn over the
+ * background `image`. Image layers cover the whole page unless given a
+ * width and height.
+ */
+const layerSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('face'), slot: z.string().min(1) }).strict(),
+  z.object({ type: z.literal('text'), slot: z.string().min(1) }).strict(),
+  z
+    .object({
+      type: z.literal('image'),
+      image: z.string().min(1),
+      x: z.number().int().nonnegative().default(0),
+      y: z.number().int().nonnegative().default(0),
+      width: z.number().int().positive().optional(),
+      height: z.number().int().positive().optional(),
+    })
+    .strict(),
+]);
+
+/**
+ * Schema for `<templates dir>/<name>.json`. Slot coordinates are in
+ * pixels of the template image at `outputSize`.
+ */
+export const templateManifestSchema = z
+  .object({
+    name: z.string().regex(NAME_PATTERN, NAME_MESSAGE),
+    displayName: z.string().min(1),
+    description: z.string().default(''),
+    image: z.string().min(1),
+    thumbnail: z.string().min(1),
+    tags: z.array(z.string().min(1)).default([]),
+    outputSize: z
+      .object({
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+      })
+      .strict(),
+    defaultStyle: z
+      .string()
+      .refine((id) => Boolean(getStylePreset(id)), 'is not a known style preset')
+      .optional(),
+    recommendedStyles: z
+      .array(
+        z
+          .string()
+          .refine((id) => Boolean(getStylePreset(id)), 'is not a known style preset')
+      )
+      .default([]),
+    model: z
+      .string()
+      .refine((id) => Boolean(getModelProvider(id)), 'is not a known model provider')
+      .optional(),
+    faceSlots: z.array(faceSlotSchema).min(1),
+    textSlots: z.array(textSlotSchema).default([]),
+    // Paint order above the background. Defaults to every face slot, then
+    // every text slot; when given, it must list each slot exactly once.
+    layers: z.array(layerSchema).optional(),
+    // Nudges each face's colors towards the template art in a `margin`-pixel
+    // ring around its slot; `strength` 0 is off, 1 matches fully.
+    harmonization: z
+      .object({
+        strength: z.number().min(0).max(1),
+        margin: z.number().int().positive().default(48),
+      })
+      .strict()
+      .optional(),
+    // Physical page size in millimetres for print export. The trim must
+    // have the aspect ratio of `outputSize`; the art is scaled to 300 DPI.
+    print: z
+      .object({
+        trimWidth: z.number().positive(),
+        trimHeight: z.number().positive(),
+        bleed: z.number().min(0).max(MAX_BLEED_MM).default(DEFAULT_BLEED_MM),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .superRefine((manifest, ctx) => {
+    const { width, height } = manifest.outputSize;
+
+    if (manifest.print) {
+      const aspect = width / height;
+      const trimAspect = manifest.print.trimWidth / manifest.print.trimHeight;
+      if (Math.abs(trimAspect - aspect) > aspect * 0.01) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['print'],
+          message: `trim size must have the ${width}x${height} output's aspect ratio`,
+        });
+      }
+    }
+
+    if (manifest.layers) {
+      const slotNames = {
+        face: manifest.faceSlots.map((slot) => slot.name),
+        text: manifest.textSlots.map((slot) => slot.name),
+      };
+      const placed = { face: new Set<string>(), text: new Set<string>() };
+
+      manifest.layers.forEach((layer, index) => {
+        if (layer.type === 'image') {
+          if ((layer.width === undefined) !== (layer.height === undefined)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ['layers', index],
+              message: 'give both width and height, or neither to cover the page',
+            });
+          }
+
+          const layerWidth = layer.width ?? width;
+          const layerHeight = layer.height ?? height;
+          if (layer.x + layerWidth > width || layer.y + layerHeight > height) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ['layers', index],
+              message: `image layer extends past the ${width}x${height} output`,
+            });
+          }
+          return;
+        }
+
+        if (!slotNames[layer.type].includes(layer.slot)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['layers', index, 'slot'],
+            message: `no ${layer.type} slot named "${layer.slot}"`,
+          });
+        } else if (placed[layer.type].has(layer.slot)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['layers', index, 'slot'],
+            message: `${layer.type} slot "${layer.slot}" is listed twice`,
+          });
+        }
+        placed[layer.type].add(layer.slot);
+      });
+
+      (['face', 'text'] as const).forEach((type) => {
+        slotNames[type]
+          .filter((name) => !placed[type].has(name))
+          .forEach((name) => {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ['layers'],
+              message: `missing ${type} slot "${name}"`,
+            });
+          });
+      });
+    }
+    const slotNames = new Set<string>();
+
+    manifest.faceSlots.forEach((slot, index) => {
+      if (slotNames.has(slot.name)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['faceSlots', index, 'name'],
+          message: `duplicate slot name "${slot.name}"`,
+        });
+      }
+      slotNames.add(slot.name);
+
+      const outOfBounds = getSlotCorners(slot).some(
+        ([px, py]) => px < 0 || py < 0 || px > width || py > height
+      );
+
+      if (slot.x + slot.width > width || slot.y + slot.height > height || outOfBounds) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['faceSlots', index],
+          message: `slot "${slot.name}" extends past the ${width}x${height} output`,
+        });
+      }
+
+      if (slot.mask && slot.mask.feather * 2 >= Math.min(slot.width, slot.height)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['faceSlots', index, 'mask', 'feather'],
+          message: `must be less than half of the slot's smaller side`,
+        });
+      }
+    });
+  });
+
+export type TemplateConfig = z.output<typeof templateManifestSchema>;
+
+export type FaceSlot = TemplateConfig['faceSlots'][number];
+
+export type SlotMask = NonNullable<FaceSlot['mask']>;
+
+export type TextSlot = TemplateConfig['textSlots'][number];
+
+export type TemplateLayer = NonNullable<TemplateConfig['layers']>[number];
+
+/** The template's paint order, filling in the default when none is given. */
+export function getTemplateLayers(template: TemplateConfig): TemplateLayer[] {
+  return (
+    template.layers ?? [
+      ...template.faceSlots.map(
+        (slot): TemplateLayer => ({ type: 'face', slot: slot.name })
+      ),
+      ...template.textSlots.map(
+        (slot): TemplateLayer => ({ type: 'text', slot: slot.name })
+      ),
+    ]
+  );
+}
+
+/**
+ * Copy of the template with every pixel measurement multiplied by `scale`,
+ * for rendering it larger than `outputSize`, e.g. for print.
+ */
+export function scaleTemplateConfig(
+  template: TemplateConfig,
+  scale: number
+): TemplateConfig {
+  const px = (value: number) => Math.round(value * scale);
+
+  return {
+    ...template,
+    outputSize: {
+      width: px(template.outputSize.width),
+      height: px(template.outputSize.height),
+    },
+    faceSlots: template.faceSlots.map((slot) => ({
+      ...slot,
+      x: px(slot.x),
+      y: px(slot.y),
+      // Scaled from the far edge so rounding can't push a slot that
+      // touches the page edge past it.
+      width: px(slot.x + slot.width) - px(slot.x),
+      height: px(slot.y + slot.height) - px(slot.y),
+      quad: slot.quad?.map(([x, y]) => [x * scale, y * scale]) as FaceSlot['quad'],
+      mask: slot.mask && {
+        ...slot.mask,
+        feather: slot.mask.feather * scale,
+        ...(slot.mask.shape === 'rounded' && {
+          radius: slot.mask.radius * scale,
+        }),
+      },
+    })),
+    textSlots: template.textSlots.map((slot) => ({
+      ...slot,
+      x: slot.x * scale,
+      y: slot.y * scale,
+      maxWidth: slot.maxWidth * scale,
+      fontSize: px(slot.fontSize),
+      minFontSize: Math.min(px(slot.minFontSize), px(slot.fontSize)),
+      arc: slot.arc && { ...slot.arc, radius: slot.arc.radius * scale },
+    })),
+    layers: template.layers?.map((layer) =>
+      layer.type === 'image'
+        ? {
+            ...layer,
+            x: px(layer.x),
+            y: px(layer.y),
+            width:
+              layer.width === undefined
+                ? undefined
+                : px(layer.x + layer.width) - px(layer.x),
+            height:
+              layer.height === undefined
+                ? undefined
+                : px(layer.y + layer.height) - px(layer.y),
+          }
+        : layer
+    ),
+    harmonization: template.harmonization && {
+      ...template.harmonization,
+      margin: px(template.harmonization.margin),
+    },
+  };
+}
+
+/** Names of the `{{field}}` placeholders a template's text slots use. */
+export function getTemplateTextFields(template: TemplateConfig): string[] {
+  const fields = new Set<string>();
+  template.textSlots.forEach((slot) => {
+    Array.from(slot.text.matchAll(TEXT_FIELD_PATTERN)).forEach(([, field]) =>
+      fields.add(field)
+    );
+  });
+  return Array.from(fields);
+}
+
+export class TemplateManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'TemplateManifestError';
+  }
+}
+
+export function getTemplatesDir(): string {
+  return (
+    process.env.TEMPLATES_DIR ||
+    path.join(process.cwd(), 'public', 'templates')
+  );
+}
+
+export function getTemplateAssetPath(file: string): string {
+  return path.join(getTemplatesDir(), file);
+}
+
+export function getTemplateImagePath(template: TemplateConfig): string {
+  return getTemplateAssetPath(template.image);
+}
+
+export async function loadTemplateManifest(
+  filePath: string
+): Promise<TemplateConfig> {
+  const fileName = path.basename(filePath);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    throw new TemplateManifestError(
+      `${fileName}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const parsed = templateManifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(
+      (issue) => `${fileName}: ${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+    throw new TemplateManifestError(
+      `Invalid template manifest\n${issues.join('\n')}`
+    );
+  }
+
+  const expectedName = path.basename(fileName, '.json');
+  if (parsed.data.name !== expectedName) {
+    throw new TemplateManifestError(
+      `${fileName}: name: must match the file name ("${expectedName}")`
+    );
+  }
+
+  return parsed.data;
+}
+
+interface TemplateLoadResult {
+  templates: Map<string, TemplateConfig>;
+  errors: TemplateManifestError[];
+}
+
+let cachedLoad: Promise<TemplateLoadResult> | undefined;
+
+async function readTemplates(): Promise<TemplateLoadResult> {
+  const templatesDir = getTemplatesDir();
+
+  let files: string[];
+  try {
+    files = await fs.readdir(templatesDir);
+  } catch (error) {
+    console.warn('Templates directory not found:', error);
+    return { templates: new Map(), errors: [] };
+  }
+
+  const results = await Promise.allSettled(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => loadTemplateManifest(path.join(templatesDir, file)))
+  );
+
+  const templates = new Map<string, TemplateConfig>();
+  const errors: TemplateManifestError[] = [];
+  results.forEach((result) => {
+    if (result.status === 'fulfilled') {
+      templates.set(result.value.name, result.value);
+    } else {
+      errors.push(
+        result.reason instanceof TemplateManifestError
+          ? result.reason
+          : new TemplateManifestError(String(result.reason))
+      );
+    }
+  });
+
+  return { templates, errors };
+}
+
+// Cached in production; in development manifests are re-read so edits
+// show up without a restart.
+function readTemplatesCached(): Promise<TemplateLoadResult> {
+  if (process.env.NODE_ENV !== 'production') {
+    return readTemplates();
+  }
+
+  if (!cachedLoad) {
+    cachedLoad = readTemplates().catch((error) => {
+      cachedLoad = undefined;
+      throw error;
+    });
+  }
+  return cachedLoad;
+}
+
+/**
+ * Loads and validates every manifest in the templates directory. Invalid
+ * manifests are logged with the file and path of each bad field and left
+ * out, so one broken template doesn't take the others down; the
+ * templates:validate script reports them too.
+ */
+export async function loadValidTemplates(): Promise<Map<string, TemplateConfig>> {
+  const { templates, errors } = await readTemplatesCached();
+
+  errors.forEach((error) => console.error(error.message));
+  return templates;
+}
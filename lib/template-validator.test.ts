@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import sharp from 'sharp';
+import { loadValidTemplates } from '@/lib/template-manifest';
+import {
+  renderTemplatePreview,
+  validateTemplateAssets,
+} from '@/lib/template-validator';
+
+describe('template without its background image', () => {
+  it('fails validation', async () => {
+    const template = (await loadValidTemplates()).get('template1');
+    assert.ok(template);
+
+    const issues = await validateTemplateAssets({ ...template, image: 'missing.png' });
+
+    assert.ok(
+      issues.some(
+        (issue) => issue.level === 'error' && issue.message.startsWith('missing.png not found')
+      )
+    );
+  });
+
+  it('is previewed on a blank page with the face in its slot', async () => {
+    const template = (await loadValidTemplates()).get('template1');
+    assert.ok(template);
+
+    const preview = await renderTemplatePreview({ ...template, image: 'missing.png' });
+
+    const { data, info } = await sharp(preview).raw().toBuffer({ resolveWithObject: true });
+    assert.deepEqual({ width: info.width, height: info.height }, template.outputSize);
+    const pixel = (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels;
+      return Array.from(data.subarray(offset, offset + 3));
+    };
+    const slot = template.faceSlots[0];
+    assert.deepEqual(pixel(5, info.height - 5), [255, 255, 255]);
+    assert.notDeepEqual(
+      pixel(slot.x + slot.width / 2, slot.y + slot.height / 2),
+      [255, 255, 255]
+    );
+  });
+});
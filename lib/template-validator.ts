@@ -0,0 +1,322 @@
+import fs from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { createImageCompositor } from '@/lib/image-compositor';
+import { getPrintScale } from '@/lib/print-export';
+import {
+  getTemplateAssetPath,
+  getTemplateImagePath,
+  getTemplateTextFields,
+  scaleTemplateConfig,
+  templateManifestSchema,
+  type TemplateConfig,
+} from '@/lib/template-manifest';
+
+export type TemplateIssueLevel = 'error' | 'warning';
+
+export interface TemplateIssue {
+  level: TemplateIssueLevel;
+  message: string;
+}
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+type AssetInfo = { metadata: sharp.Metadata & Size } | { problem: string };
+
+const GENERIC_FONT_FAMILIES = [
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+];
+
+// librsvg silently swaps in a default font for families fontconfig can't
+// find, so a missing font renders exactly like a made-up one.
+const MISSING_FONT_PROBE = 'pickabook-no-such-font';
+const FONT_SAMPLE = 'Hamburgefonstiv 0123';
+
+const SAMPLE_TEXT: Record<string, string> = { childName: 'Alexandra' };
+
+function hasSameAspect(a: Size, b: Size): boolean {
+  const aspect = b.width / b.height;
+  return Math.abs(a.width / a.height - aspect) <= aspect * 0.01;
+}
+
+async function readAsset(assetPath: string, label: string): Promise<AssetInfo> {
+  try {
+    await fs.access(assetPath);
+  } catch {
+    return { problem: `${label} not found` };
+  }
+
+  try {
+    const metadata = await sharp(assetPath).metadata();
+    if (!metadata.width || !metadata.height) {
+      return { problem: `${label} has no pixel size` };
+    }
+    return { metadata: { ...metadata, width: metadata.width, height: metadata.height } };
+  } catch (error) {
+    return {
+      problem: `${label} is not a readable image (${error instanceof Error ? error.message : String(error)})`,
+    };
+  }
+}
+
+// Raster art drawn larger than it is gets blurry; SVGs are rasterized at
+// the drawn size, so they never do.
+function checkResolution(
+  metadata: sharp.Metadata & Size,
+  drawn: Size,
+  label: string,
+  issues: TemplateIssue[]
+) {
+  if (
+    metadata.format !== 'svg' &&
+    (metadata.width < drawn.width || metadata.height < drawn.height)
+  ) {
+    issues.push({
+      level: 'warning',
+      message: `${label} is ${metadata.width}x${metadata.height} but drawn at ${drawn.width}x${drawn.height}, so it will look soft`,
+    });
+  }
+}
+
+async function renderFontSample(family: string): Promise<Buffer> {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="80"><text x="10" y="60" font-family="${family}" font-size="48">${FONT_SAMPLE}</text></svg>`;
+  return sharp(Buffer.from(svg)).raw().toBuffer();
+}
+
+async function isFontInstalled(family: string): Promise<boolean> {
+  const [sample, fallback] = await Promise.all([
+    renderFontSample(family),
+    renderFontSample(MISSING_FONT_PROBE),
+  ]);
+  return !sample.equals(fallback);
+}
+
+async function checkTemplateImage(
+  template: TemplateConfig,
+  printSize: Size | undefined,
+  issues: TemplateIssue[]
+) {
+  const asset = await readAsset(getTemplateImagePath(template), template.image);
+  if ('problem' in asset) {
+    issues.push({
+      level: 'error',
+      message: `${asset.problem}; faces and text would be composited on a blank page`,
+    });
+    return;
+  }
+
+  const { metadata } = asset;
+  const { width, height } = template.outputSize;
+  if (!hasSameAspect(metadata, template.outputSize)) {
+    issues.push({
+      level: 'error',
+      message: `${template.image} is ${metadata.width}x${metadata.height}, which doesn't have the ${width}x${height} outputSize's aspect ratio; it is stretched to fit and slots land in the wrong place`,
+    });
+  }
+
+  const count = issues.length;
+  checkResolution(metadata, template.outputSize, template.image, issues);
+  if (printSize && issues.length === count) {
+    checkResolution(metadata, printSize, `${template.image} at print size`, issues);
+  }
+}
+
+async function checkThumbnail(template: TemplateConfig, issues: TemplateIssue[]) {
+  // Remote thumbnails are served from elsewhere; only local ones can be
+  // checked here.
+  if (/^[a-z]+:/i.test(template.thumbnail)) {
+    return;
+  }
+
+  const asset = await readAsset(
+    path.join(process.cwd(), 'public', template.thumbnail),
+    `thumbnail ${template.thumbnail}`
+  );
+  if ('problem' in asset) {
+    issues.push({
+      level: 'warning',
+      message: `${asset.problem}; the template picker will show a placeholder icon`,
+    });
+  }
+}
+
+async function checkFaceSlots(template: TemplateConfig, issues: TemplateIssue[]) {
+  for (const slot of template.faceSlots) {
+    if (slot.optional) {
+      const face = await readAsset(
+        getTemplateAssetPath(slot.defaultFace),
+        `default face ${slot.defaultFace} of slot "${slot.name}"`
+      );
+      if ('problem' in face) {
+        issues.push({ level: 'error', message: face.problem });
+      }
+    }
+
+    if (slot.mask?.shape !== 'image') {
+      continue;
+    }
+
+    const label = `mask ${slot.mask.image} of slot "${slot.name}"`;
+    const mask = await readAsset(getTemplateAssetPath(slot.mask.image), label);
+    if ('problem' in mask) {
+      issues.push({ level: 'error', message: mask.problem });
+    } else if (!hasSameAspect(mask.metadata, slot)) {
+      issues.push({
+        level: 'warning',
+        message: `${label} is ${mask.metadata.width}x${mask.metadata.height} and will be stretched to the ${slot.width}x${slot.height} slot`,
+      });
+    }
+  }
+}
+
+async function checkImageLayers(
+  template: TemplateConfig,
+  scale: number,
+  issues: TemplateIssue[]
+) {
+  for (const layer of template.layers ?? []) {
+    if (layer.type !== 'image') {
+      continue;
+    }
+
+    const label = `overlay ${layer.image}`;
+    const asset = await readAsset(getTemplateAssetPath(layer.image), label);
+    if ('problem' in asset) {
+      issues.push({ level: 'error', message: asset.problem });
+      continue;
+    }
+
+    const drawn = {
+      width: layer.width ?? template.outputSize.width,
+      height: layer.height ?? template.outputSize.height,
+    };
+    if (!hasSameAspect(asset.metadata, drawn)) {
+      issues.push({
+        level: 'warning',
+        message: `${label} is ${asset.metadata.width}x${asset.metadata.height} and will be stretched to ${drawn.width}x${drawn.height}`,
+      });
+    }
+
+    checkResolution(
+      asset.metadata,
+      {
+        width: Math.round(drawn.width * scale),
+        height: Math.round(drawn.height * scale),
+      },
+      label,
+      issues
+    );
+  }
+}
+
+async function checkFonts(template: TemplateConfig, issues: TemplateIssue[]) {
+  const families = new Set(
+    template.textSlots.map((slot) =>
+      slot.fontFamily.split(',')[0].trim().replace(/^['"]|['"]$/g, '')
+    )
+  );
+
+  for (const family of Array.from(families)) {
+    if (GENERIC_FONT_FAMILIES.includes(family.toLowerCase())) {
+      continue;
+    }
+
+    if (!(await isFontInstalled(family))) {
+      issues.push({
+        level: 'warning',
+        message: `font "${family}" is not installed on this machine; text falls back to the next family in the list`,
+      });
+    }
+  }
+}
+
+// The manifest schema checks slot bounds at `outputSize`; run it again at
+// print size, where rounding could push a slot past the page edge.
+function checkPrintBounds(template: TemplateConfig, scale: number, issues: TemplateIssue[]) {
+  const parsed = templateManifestSchema.safeParse(scaleTemplateConfig(template, scale));
+  if (!parsed.success) {
+    parsed.error.issues.forEach((issue) => {
+      issues.push({
+        level: 'error',
+        message: `at print size: ${issue.path.join('.') || '(root)'}: ${issue.message}`,
+      });
+    });
+  }
+}
+
+/**
+ * Checks the files a valid manifest refers to: the template image against
+ * `outputSize`, masks, overlays, default faces, thumbnail and fonts.
+ * Errors break compositing; warnings degrade the result.
+ */
+export async function validateTemplateAssets(
+  template: TemplateConfig
+): Promise<TemplateIssue[]> {
+  const issues: TemplateIssue[] = [];
+  const scale = template.print
+    ? getPrintScale(template.print, template.outputSize.width)
+    : 1;
+  const printSize = template.print
+    ? {
+        width: Math.round(template.outputSize.width * scale),
+        height: Math.round(template.outputSize.height * scale),
+      }
+    : undefined;
+
+  await checkTemplateImage(template, printSize, issues);
+  await checkThumbnail(template, issues);
+  await checkFaceSlots(template, issues);
+  await checkImageLayers(template, scale, issues);
+  await checkFonts(template, issues);
+  if (template.print) {
+    checkPrintBounds(template, scale, issues);
+  }
+
+  return issues;
+}
+
+/**
+ * Composites the template with every slot's default face as a stand-in
+ * and sample text in every field, as a PNG for designers to review.
+ * Without the template image the layout is drawn on a blank page.
+ */
+export async function renderTemplatePreview(template: TemplateConfig): Promise<Buffer> {
+  const faces: Record<string, string> = {};
+  for (const slot of template.faceSlots) {
+    const face = await fs.readFile(getTemplateAssetPath(slot.defaultFace));
+    const { format } = await sharp(face).metadata();
+    const contentType = format === 'svg' ? 'image/svg+xml' : `image/${format}`;
+    faces[slot.name] = `data:${contentType};base64,${face.toString('base64')}`;
+  }
+
+  const text = Object.fromEntries(
+    getTemplateTextFields(template).map((field) => [
+      field,
+      SAMPLE_TEXT[field] ?? `Sample ${field}`,
+    ])
+  );
+
+  const result = await createImageCompositor().compositeOnTemplate({
+    faces,
+    text,
+    template,
+    output: { format: 'png' },
+  });
+
+  if (result.error || !result.base64Image) {
+    throw new Error(result.error || 'Preview composite failed');
+  }
+
+  return Buffer.from(
+    result.base64Image.slice(result.base64Image.indexOf(',') + 1),
+    'base64'
+  );
+}
@@ -0,0 +1,144 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import sharp from 'sharp';
+import type { TextSlot } from '@/lib/template-manifest';
+import {
+  renderTextLayer,
+  resolveSlotText,
+  sanitizeTextFields,
+} from '@/lib/text-renderer';
+
+const SIZE = { width: 800, height: 400 };
+
+function textSlot(overrides: Partial<TextSlot> = {}): TextSlot {
+  return {
+    name: 'title',
+    text: '{{childName}}',
+    x: 400,
+    y: 200,
+    maxWidth: 700,
+    fontFamily: 'sans-serif',
+    fontSize: 48,
+    minFontSize: 16,
+    fontWeight: 'normal',
+    color: '#000000',
+    align: 'center',
+    ...overrides,
+  };
+}
+
+// Bounding box of the drawn (non-transparent) pixels.
+async function inkBounds(png: Buffer) {
+  const { data, info } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+  let left = info.width;
+  let right = -1;
+  let top = info.height;
+  let bottom = -1;
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      if (data[(y * info.width + x) * info.channels + 3] > 0) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+  return { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+async function render(slot: TextSlot, childName: string) {
+  const png = await renderTextLayer([slot], { childName }, SIZE);
+  assert.ok(png);
+  return inkBounds(png);
+}
+
+describe('sanitizeTextFields', () => {
+  it('collapses whitespace and control characters and drops empty fields', () => {
+    assert.deepEqual(
+      sanitizeTextFields({ dedication: '  For\tMaya\n\u0007with love ', empty: ' \n ' }),
+      { dedication: 'For Maya with love' }
+    );
+  });
+
+  it('rejects text over the length limit', () => {
+    assert.throws(() => sanitizeTextFields({ dedication: 'a'.repeat(61) }), {
+      name: 'InvalidInputError',
+    });
+  });
+});
+
+describe('resolveSlotText', () => {
+  it('fills every placeholder', () => {
+    const slot = textSlot({ text: "{{childName}}'s trip with {{friend}}" });
+
+    assert.equal(
+      resolveSlotText(slot, { childName: 'Maya', friend: 'Leo' }),
+      "Maya's trip with Leo"
+    );
+  });
+
+  it('leaves out captions with a missing field', () => {
+    const slot = textSlot({ text: "{{childName}}'s trip with {{friend}}" });
+
+    assert.equal(resolveSlotText(slot, { childName: 'Maya' }), undefined);
+  });
+});
+
+describe('renderTextLayer', () => {
+  it('draws nothing when no slot has its values', async () => {
+    assert.equal(await renderTextLayer([textSlot()], {}, SIZE), undefined);
+  });
+
+  it('escapes markup in the text', async () => {
+    const png = await renderTextLayer(
+      [textSlot()],
+      { childName: '</text><rect width="800" height="400" fill="red"/><text>&' },
+      SIZE
+    );
+    assert.ok(png);
+
+    const { data } = await sharp(png).raw().toBuffer({ resolveWithObject: true });
+    assert.equal(data[3], 0, 'the top-left corner stays transparent');
+  });
+
+  it('shrinks long text to fit the slot', async () => {
+    const slot = textSlot({ maxWidth: 300 });
+
+    const natural = await render(textSlot({ maxWidth: 10000 }), 'Alexandra the Explorer');
+    const fitted = await render(slot, 'Alexandra the Explorer');
+
+    assert.ok(natural.width > 300);
+    assert.ok(fitted.width <= 300, `${fitted.width}px is wider than the slot`);
+    assert.ok(fitted.height < natural.height);
+  });
+
+  it('cuts text short once it is at the minimum font size', async () => {
+    const slot = textSlot({ maxWidth: 200, fontSize: 48, minFontSize: 48 });
+
+    // No descenders, so the cut text is exactly as tall if the size held.
+    const natural = await render(textSlot({ maxWidth: 10000 }), 'Alexandra Hamilton Stone');
+    const cut = await render(slot, 'Alexandra Hamilton Stone');
+
+    assert.ok(cut.width <= 200, `${cut.width}px is wider than the slot`);
+    assert.equal(cut.height, natural.height);
+  });
+
+  it('bends arc text around the anchor', async () => {
+    const straight = await render(textSlot(), 'Maya Rodriguez');
+    const up = await render(textSlot({ arc: { radius: 150, direction: 'up' } }), 'Maya Rodriguez');
+    const down = await render(
+      textSlot({ arc: { radius: 150, direction: 'down' } }),
+      'Maya Rodriguez'
+    );
+
+    assert.ok(up.height > straight.height * 1.5);
+    assert.ok(down.height > straight.height * 1.5);
+    // "up" is a rainbow: the middle stays at the anchor and the ends drop.
+    // "down" is the opposite: the ends rise.
+    assert.ok(Math.abs(up.top - straight.top) < 10);
+    assert.ok(up.top + up.height > straight.top + straight.height + 40);
+    assert.ok(down.top < straight.top - 40);
+    assert.ok(Math.abs(down.top + down.height - (straight.top + straight.height)) < 10);
+  });
+});
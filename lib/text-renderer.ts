@@ -0,0 +1,258 @@
+import sharp from 'sharp';
+import { InvalidInputError } from '@/lib/errors';
+import { containsBlockedTerms } from '@/lib/prompt-builder';
+import { TEXT_FIELD_PATTERN, type TextSlot } from '@/lib/template-manifest';
+
+export const MAX_TEXT_FIELD_LENGTH = 60;
+
+const ELLIPSIS = '…';
+
+// Ink widths keyed by font, size and text. Measuring means rasterizing, so
+// repeated fits of the same name stay cheap.
+const widthCache = new Map<string, number>();
+const MAX_CACHED_WIDTHS = 2000;
+
+interface PlacedText {
+  text: string;
+  fontSize: number;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function fontAttributes(slot: TextSlot, fontSize: number): string {
+  return [
+    `font-family="${escapeXml(slot.fontFamily)}"`,
+    `font-size="${fontSize}"`,
+    `font-weight="${slot.fontWeight}"`,
+    `fill="${slot.color}"`,
+  ].join(' ');
+}
+
+/**
+ * Normalizes user-supplied text field values: collapses whitespace, strips
+ * control characters and rejects anything too long or not child-safe.
+ * Throws InvalidInputError.
+ */
+export function sanitizeTextFields(
+  fields: Record<string, string>
+): Record<string, string> {
+  const sanitized: Record<string, string> = {};
+
+  Object.entries(fields).forEach(([field, value]) => {
+    const text = value
+      .replace(/[\u0000-\u001f\u007f-\u009f]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (!text) {
+      return;
+    }
+
+    if (text.length > MAX_TEXT_FIELD_LENGTH) {
+      throw new InvalidInputError(
+        `Text field ${field} is too long. Maximum length: ${MAX_TEXT_FIELD_LENGTH} characters`
+      );
+    }
+
+    if (containsBlockedTerms(text)) {
+      throw new InvalidInputError(
+        `Text field ${field} contains content that is not allowed`
+      );
+    }
+
+    sanitized[field] = text;
+  });
+
+  return sanitized;
+}
+
+/**
+ * Fills a text slot's placeholders, or returns undefined when any of its
+ * fields has no value so half-filled captions are never drawn.
+ */
+export function resolveSlotText(
+  slot: TextSlot,
+  values: Record<string, string | undefined>
+): string | undefined {
+  let missing = false;
+  const text = slot.text.replace(TEXT_FIELD_PATTERN, (_, field: string) => {
+    const value = values[field];
+    if (!value) {
+      missing = true;
+    }
+    return value || '';
+  });
+
+  return missing ? undefined : text;
+}
+
+async function measureInkWidth(
+  text: string,
+  slot: TextSlot,
+  fontSize: number
+): Promise<number> {
+  if (!text.trim()) {
+    return 0;
+  }
+
+  const key = `${slot.fontFamily}|${slot.fontWeight}|${fontSize}|${text}`;
+  const cached = widthCache.get(key);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const width = Math.ceil(fontSize * (text.length + 2));
+  const height = Math.ceil(fontSize * 2);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><text x="${fontSize}" y="${fontSize * 1.4}" ${fontAttributes(slot, fontSize)} fill-opacity="1">${escapeXml(text)}</text></svg>`;
+
+  const { info } = await sharp(Buffer.from(svg))
+    .trim()
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  if (widthCache.size >= MAX_CACHED_WIDTHS) {
+    widthCache.clear();
+  }
+  widthCache.set(key, info.width);
+  return info.width;
+}
+
+// Advance of each character, measured between two reference glyphs so
+// spaces and side bearings count. Advances scale linearly with font size,
+// so they are measured once at the slot's base size and scaled.
+async function measureAdvances(
+  chars: string[],
+  slot: TextSlot,
+  fontSize: number
+): Promise<number[]> {
+  const frame = await measureInkWidth('HH', slot, slot.fontSize);
+  const framed = await Promise.all(
+    chars.map((char) => measureInkWidth(`H${char}H`, slot, slot.fontSize))
+  );
+
+  return framed.map(
+    (width) => (Math.max(0, width - frame) * fontSize) / slot.fontSize
+  );
+}
+
+async function measureText(
+  text: string,
+  slot: TextSlot,
+  fontSize: number
+): Promise<number> {
+  if (!slot.arc) {
+    return measureInkWidth(text, slot, fontSize);
+  }
+
+  const advances = await measureAdvances(Array.from(text), slot, fontSize);
+  return advances.reduce((sum, advance) => sum + advance, 0);
+}
+
+/**
+ * Shrinks the font until the text fits `maxWidth`, down to `minFontSize`.
+ * Text that still doesn't fit is cut short with an ellipsis.
+ */
+async function fitText(text: string, slot: TextSlot): Promise<PlacedText> {
+  let fontSize = slot.fontSize;
+  let width = await measureText(text, slot, fontSize);
+
+  while (width > slot.maxWidth && fontSize > slot.minFontSize) {
+    // Jump close to the right size first; text width scales roughly
+    // linearly with font size.
+    fontSize = Math.max(
+      slot.minFontSize,
+      Math.min(fontSize - 1, Math.floor((fontSize * slot.maxWidth) / width))
+    );
+    width = await measureText(text, slot, fontSize);
+  }
+
+  let fitted = text;
+  while (width > slot.maxWidth && fitted.length > 1) {
+    fitted = Array.from(fitted).slice(0, -1).join('').trimEnd();
+    width = await measureText(`${fitted}${ELLIPSIS}`, slot, fontSize);
+  }
+
+  return {
+    text: fitted === text ? text : `${fitted}${ELLIPSIS}`,
+    fontSize,
+  };
+}
+
+function renderStraightText(slot: TextSlot, { text, fontSize }: PlacedText): string {
+  const anchor = { left: 'start', center: 'middle', right: 'end' }[slot.align];
+
+  return `<text x="${slot.x}" y="${slot.y}" text-anchor="${anchor}" ${fontAttributes(slot, fontSize)}>${escapeXml(text)}</text>`;
+}
+
+// librsvg has no textPath support, so arcs are laid out one glyph at a
+// time, each rotated to follow the circle.
+async function renderArcText(
+  slot: TextSlot,
+  { text, fontSize }: PlacedText
+): Promise<string> {
+  const { radius, direction } = slot.arc!;
+  const chars = Array.from(text);
+  const advances = await measureAdvances(chars, slot, fontSize);
+  const total = advances.reduce((sum, advance) => sum + advance, 0);
+
+  const startOffset = { left: 0, center: -total / 2, right: -total }[slot.align];
+  // "up" text sits on top of a circle below the anchor, "down" text hangs
+  // under a circle above it.
+  const sign = direction === 'up' ? 1 : -1;
+  const cx = slot.x;
+  const cy = slot.y + sign * radius;
+
+  let offset = startOffset;
+  return chars
+    .map((char, index) => {
+      const angle = (offset + advances[index] / 2) / radius;
+      offset += advances[index];
+
+      const x = cx + radius * Math.sin(angle);
+      const y = cy - sign * radius * Math.cos(angle);
+      const degrees = ((sign * angle * 180) / Math.PI).toFixed(2);
+
+      return `<text x="${x.toFixed(2)}" y="${y.toFixed(2)}" text-anchor="middle" transform="rotate(${degrees} ${x.toFixed(2)} ${y.toFixed(2)})" ${fontAttributes(slot, fontSize)}>${escapeXml(char)}</text>`;
+    })
+    .join('');
+}
+
+/**
+ * Renders every text slot that has values for all its fields into one
+ * transparent PNG the size of the template, or undefined if there is
+ * nothing to draw.
+ */
+export async function renderTextLayer(
+  slots: TextSlot[],
+  values: Record<string, string | undefined>,
+  size: { width: number; height: number }
+): Promise<Buffer | undefined> {
+  const elements = await Promise.all(
+    slots.map(async (slot) => {
+      const text = resolveSlotText(slot, values);
+      if (!text) {
+        return '';
+      }
+
+      const placed = await fitText(text, slot);
+      return slot.arc
+        ? renderArcText(slot, placed)
+        : renderStraightText(slot, placed);
+    })
+  );
+
+  const content = elements.join('');
+  if (!content) {
+    return undefined;
+  }
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size.width}" height="${size.height}">${content}</svg>`;
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
@@ -0,0 +1,109 @@
+/**
+ * Checks every template in the templates directory and renders a preview
+ * of each with placeholder faces.
+ *
+ *   npm run templates:validate -- [--out <dir>] [--no-preview]
+ *
+ * Exits with status 1 if any template has errors.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  getTemplatesDir,
+  loadTemplateManifest,
+  TemplateManifestError,
+} from '@/lib/template-manifest';
+import {
+  renderTemplatePreview,
+  validateTemplateAssets,
+  type TemplateIssue,
+} from '@/lib/template-validator';
+
+const DEFAULT_OUTPUT_DIR = 'template-previews';
+
+function parseArgs(args: string[]): { outputDir: string; preview: boolean } {
+  const outIndex = args.indexOf('--out');
+  return {
+    outputDir:
+      outIndex >= 0 && args[outIndex + 1] ? args[outIndex + 1] : DEFAULT_OUTPUT_DIR,
+    preview: !args.includes('--no-preview'),
+  };
+}
+
+function printIssues(issues: TemplateIssue[]) {
+  issues.forEach(({ level, message }) => {
+    console.log(`  ${level}: ${message}`);
+  });
+}
+
+async function main() {
+  const { outputDir, preview } = parseArgs(process.argv.slice(2));
+  const templatesDir = getTemplatesDir();
+  const files = (await fs.readdir(templatesDir))
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+
+  console.log(`Validating ${files.length} templates in ${templatesDir}`);
+  if (preview) {
+    await fs.mkdir(outputDir, { recursive: true });
+  }
+
+  let errorCount = 0;
+  let warningCount = 0;
+
+  for (const file of files) {
+    console.log(`\n${file}`);
+
+    let template;
+    try {
+      template = await loadTemplateManifest(path.join(templatesDir, file));
+    } catch (error) {
+      if (!(error instanceof TemplateManifestError)) {
+        throw error;
+      }
+      // The message lists one "file: path: problem" per line.
+      const issues = error.message
+        .split('\n')
+        .filter((line) => line.startsWith(`${file}:`))
+        .map((line): TemplateIssue => ({ level: 'error', message: line.slice(file.length + 2) }));
+      printIssues(issues);
+      errorCount += issues.length;
+      continue;
+    }
+
+    const issues = await validateTemplateAssets(template);
+    const errors = issues.filter((issue) => issue.level === 'error').length;
+    printIssues(issues);
+    errorCount += errors;
+    warningCount += issues.length - errors;
+
+    if (!preview) {
+      continue;
+    }
+
+    // Some errors, such as missing template art, still composite, and the
+    // preview shows the layout; the others fail here again.
+    try {
+      const previewPath = path.join(outputDir, `${template.name}.png`);
+      await fs.writeFile(previewPath, await renderTemplatePreview(template));
+      console.log(`  preview: ${previewPath}`);
+    } catch (error) {
+      if (errors > 0) {
+        console.log('  preview: skipped until the errors are fixed');
+        continue;
+      }
+      errorCount += 1;
+      console.log(
+        `  error: preview failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  console.log(`\n${errorCount} errors, ${warningCount} warnings`);
+  process.exitCode = errorCount > 0 ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
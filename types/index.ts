@@ -1,23 +1,48 @@
 export interface PersonalizationRequest {
   image: File;
   template?: string;
+  model?: string;
 }
 
+export type ErrorCode =
+  | 'RATE_LIMITED'
+  | 'CONTENT_REJECTED'
+  | 'TIMEOUT'
+  | 'AUTH_FAILED'
+  | 'MODEL_UNAVAILABLE'
+  | 'INVALID_INPUT'
+  | 'CANCELLED'
+  | 'INTERNAL_ERROR';
+
 export interface PersonalizationResponse {
   success: boolean;
-  image?: string;
+  jobId?: string;
+  status?: JobStatus;
+  statusUrl?: string;
   error?: string;
+  code?: ErrorCode;
   message?: string;
 }
 
-export interface TemplateConfig {
+export type { TemplateConfig } from '@/lib/template-manifest';
+
+export interface TemplateSlotSummary {
   name: string;
-  facePosition: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  optional: boolean;
+}
+
+export interface TemplateSummary {
+  name: string;
+  displayName: string;
+  description: string;
+  tags: string[];
+  thumbnailUrl: string;
+  slotCount: number;
+  slots: TemplateSlotSummary[];
+  /** Text placeholders the template fills, e.g. "childName". */
+  textFields: string[];
+  defaultStyle?: string;
+  recommendedStyles: string[];
 }
 
 export interface AIModelConfig {
@@ -34,3 +59,94 @@ export interface UploadState {
   resultImage: string | null;
   success: boolean;
 }
+
+export type JobStatus =
+  | 'queued'
+  | 'generating'
+  | 'compositing'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export type JobStage =
+  | 'queued'
+  | 'generating'
+  | 'downloading'
+  | 'compositing'
+  | 'encoding'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export interface JobEvent {
+  stage: JobStage;
+  message: string;
+  progress: number;
+  timestamp: string;
+  logs?: string;
+}
+
+export type OutputFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface OutputOptions {
+  format: OutputFormat;
+  /** 1-100; ignored for PNG. Defaults per format. */
+  quality?: number;
+  /** Output width in pixels; height follows the template's aspect ratio. */
+  width?: number;
+}
+
+export type PrintFormat = 'pdf' | 'tiff';
+
+export interface PrintOptions {
+  format: PrintFormat;
+  /** Bleed in millimetres; defaults to the template's. */
+  bleed?: number;
+  cropMarks?: boolean;
+}
+
+export interface GenerationMetadata {
+  model: string;
+  style: string;
+  prompt: string;
+  negativePrompt: string;
+  seed?: number;
+  params?: Record<string, unknown>;
+  output?: OutputOptions;
+  print?: PrintOptions;
+  template?: string;
+  /** Values the template's text placeholders were filled with. */
+  text?: Record<string, string | undefined>;
+}
+
+export interface GeneratedVariation {
+  /**
+   * The composite in the requested format. The first variation always has
+   * it; the others once rendered with POST /api/jobs/[id]/variations/[index].
+   */
+  image?: string;
+  /** Small WebP of the composite, when there are several variations. */
+  preview?: string;
+  seed?: number;
+  /** Generated face URLs keyed by slot, to render `image` from. */
+  faces: Record<string, string>;
+}
+
+export interface PersonalizationJob {
+  id: string;
+  status: JobStatus;
+  progress: number;
+  events: JobEvent[];
+  createdAt: string;
+  updatedAt: string;
+  result?: {
+    image: string;
+    format?: OutputFormat | PrintFormat;
+    contentType?: string;
+    model?: string;
+    variations?: GeneratedVariation[];
+    metadata?: GenerationMetadata;
+  };
+  error?: string;
+  errorCode?: ErrorCode;
+}